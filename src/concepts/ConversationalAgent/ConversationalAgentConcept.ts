@@ -3,6 +3,7 @@
 import { Collection, Db, ObjectId } from 'npm:mongodb';
 import { ID } from '@utils/types.ts';
 import { geminiService } from '@utils/gemini.ts';
+import { partial } from '@engine';
 
 // --- Type Definitions ---
 
@@ -215,12 +216,20 @@ export default class ConversationalAgentConcept {
         content: msg.content
       }));
 
-      // Generate AI response using Gemini
-      const agentResponseContent = await geminiService.generateResponse(
+      // Generate AI response using Gemini, reporting each chunk as it streams in
+      let streamedContent = '';
+      for await (const chunk of geminiService.streamResponse(
         userMessageContent,
         conversationHistory,
         conversation.context
-      );
+      )) {
+        streamedContent += chunk;
+        await partial({ chunk });
+      }
+      const agentResponseContent = streamedContent.trim();
+      if (!agentResponseContent) {
+        throw new Error('No response generated from Gemini');
+      }
 
       const messageId = new ObjectId(); // Pre-generate ObjectId
       const agentMessage: MessageDocument = {
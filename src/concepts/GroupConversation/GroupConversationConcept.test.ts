@@ -596,3 +596,22 @@ Deno.test("deleteConversation - conversation not found", async () => {
     await client.close();
   }
 });
+
+Deno.test("_isParticipant - only participants are found", async () => {
+  const [db, client] = await testDb();
+  const concept = new GroupConversationConcept(db);
+  const user1 = createRandomId();
+  const user2 = createRandomId();
+
+  try {
+    const createResult = await concept.createGroupConversation({ participants: [user1] });
+    assert(createResult.status === "success", "Should create conversation");
+    const { conversationId } = createResult.conversation;
+
+    assertEquals(await concept._isParticipant({ conversationId, user: user1 }), [{ conversationId }]);
+    assertEquals(await concept._isParticipant({ conversationId, user: user2 }), []);
+    assertEquals(await concept._isParticipant({ conversationId: "invalid-id", user: user1 }), []);
+  } finally {
+    await client.close();
+  }
+});
@@ -1,6 +1,7 @@
 import { Collection, Db, ObjectId } from 'npm:mongodb';
 import { ID } from '../../utils/types.ts';
 import { geminiService } from '@utils/gemini.ts';
+import { partial } from '@engine';
 
 // --- Type Definitions ---
 
@@ -87,6 +88,11 @@ export type UpdateContextResult =
   | { status: 'success'; conversation: GroupConversation }
   | { status: 'error'; error: string };
 
+export type IsParticipantParams = {
+  conversationId: string;
+  user: ID;
+};
+
 export type DeleteConversationParams = {
   conversationId: string;
 };
@@ -306,12 +312,20 @@ export class GroupConversationConcept {
         content: `${msg.isFromAgent ? 'Amimi' : 'User'}: ${msg.content}`
       }));
 
-      // Generate AI response using Gemini with shared response method
-      const agentResponseContent = await geminiService.generateSharedResponse(
+      // Generate AI response using Gemini with shared response method, reporting each chunk as it streams in
+      let streamedContent = '';
+      for await (const chunk of geminiService.streamSharedResponse(
         contextPrompt,
         conversationHistory,
         `Shared conversation for couple with ${conversation.participants.length} participants. ${conversation.context}`
-      );
+      )) {
+        streamedContent += chunk;
+        await partial({ chunk });
+      }
+      const agentResponseContent = streamedContent.trim();
+      if (!agentResponseContent) {
+        throw new Error('No response generated from Gemini');
+      }
 
       const messageId = new ObjectId();
       const agentMessage: GroupMessageDocument = {
@@ -469,6 +483,24 @@ export class GroupConversationConcept {
       return { status: 'error', error: `Database error: ${error.message}` };
     }
   }
+
+  /**
+   * Returns the conversation if the user participates in it, or nothing otherwise.
+   * Used by syncs to check that a user may follow a conversation.
+   */
+  public async _isParticipant({
+    conversationId,
+    user,
+  }: IsParticipantParams): Promise<{ conversationId: string }[]> {
+    if (!GroupConversationConcept.isValidObjectId(conversationId)) {
+      return [];
+    }
+    const conversation = await this.groupConversations.findOne({
+      _id: new ObjectId(conversationId),
+      participants: user,
+    });
+    return conversation ? [{ conversationId }] : [];
+  }
 }
 
 export default GroupConversationConcept;
@@ -25,8 +25,8 @@ Deno.test("Principle: Users can successfully pair and unpair", async () => {
     console.log(`  -> Code generated: ${code1}`);
 
     // Verify User1 is not yet paired
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
-    assertEquals(await pairing.isPaired({ user: user2 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: false });
 
     // 2. User2 accepts the code
     console.log("Step 2: User2 (Bob) accepts the pairing code");
@@ -37,8 +37,8 @@ Deno.test("Principle: Users can successfully pair and unpair", async () => {
 
     // 3. Verify both users are now paired
     console.log("Step 3: Verifying both users are paired");
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
-    assertEquals(await pairing.isPaired({ user: user2 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: true });
 
     const user1Pair = await pairing.getPair({ user: user1 });
     assertEquals((user1Pair as { pair: ID }).pair, pairId);
@@ -55,8 +55,8 @@ Deno.test("Principle: Users can successfully pair and unpair", async () => {
 
     // 5. Verify both users are no longer paired
     console.log("Step 5: Verifying users are no longer paired");
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
-    assertEquals(await pairing.isPaired({ user: user2 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: false });
 
     const getPairAfterDissolve = await pairing.getPair({ user: user1 });
     assertExists((getPairAfterDissolve as { error: string }).error);
@@ -77,7 +77,7 @@ Deno.test("Action: generateCode - success case", async () => {
     assertExists((result as { code: ID }).code);
     assertEquals(typeof (result as { code: ID }).code, "string");
     
-    const isPaired = await pairing.isPaired({ user: user1 });
+    const { isPaired } = await pairing.isPaired({ user: user1 });
     assertEquals(isPaired, false);
   } finally {
     await client.close();
@@ -108,7 +108,7 @@ Deno.test("Action: generateCode - already paired user cannot generate code", asy
     // Setup: Pair user1 and user2
     const code = (await pairing.generateCode({ user: user1 }) as { code: ID }).code;
     await pairing.acceptPairing({ user: user2, code: code });
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
 
     // Attempt to generate new code
     const result = await pairing.generateCode({ user: user1 });
@@ -149,8 +149,8 @@ Deno.test("Action: acceptPairing - successfully accepts valid code", async () =>
     const acceptResult = await pairing.acceptPairing({ user: user2, code: code });
     assertExists((acceptResult as { pair: ID }).pair);
 
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
-    assertEquals(await pairing.isPaired({ user: user2 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: true });
     
     // Verify pending code is removed
     const pendingCode = await db.collection("Pairing.pendingCodes").findOne({ _id: code });
@@ -172,7 +172,7 @@ Deno.test("Action: acceptPairing - user cannot accept own code", async () => {
     assertExists((acceptResult as { error: string }).error);
     assertEquals((acceptResult as { error: string }).error.includes("cannot accept a pairing code they generated"), true);
 
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
   } finally {
     await client.close();
   }
@@ -210,7 +210,7 @@ Deno.test("Action: acceptPairing - already paired acceptor cannot accept new cod
     // Setup: Pair user1 and user2
     const code1 = (await pairing.generateCode({ user: user1 }) as { code: ID }).code;
     await pairing.acceptPairing({ user: user2, code: code1 });
-    assertEquals(await pairing.isPaired({ user: user2 }), true);
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: true });
 
     // User3 generates another code
     const code2 = (await pairing.generateCode({ user: user3 }) as { code: ID }).code;
@@ -235,7 +235,7 @@ Deno.test("Action: acceptPairing - cannot accept if generator is already paired"
     // User1 gets paired with User3 using code2
     const code2 = (await pairing.generateCode({ user: user3 }) as { code: ID }).code;
     await pairing.acceptPairing({ user: user1, code: code2 });
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
 
     // User2 tries to accept code1
     const result = await pairing.acceptPairing({ user: user2, code: code1 });
@@ -256,15 +256,15 @@ Deno.test("Action: dissolvePair - successfully dissolves active pair", async ()
     // Setup: Create active pair
     const code = (await pairing.generateCode({ user: user1 }) as { code: ID }).code;
     const pairId = (await pairing.acceptPairing({ user: user2, code: code }) as { pair: ID }).pair;
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
 
     // Dissolve the pair
     const dissolveResult = await pairing.dissolvePair({ pair: pairId });
     assertEquals(dissolveResult, {});
 
     // Verify users are no longer paired
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
-    assertEquals(await pairing.isPaired({ user: user2 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: false });
 
     // Verify pair document exists but is inactive
     const dissolvedPair = await db.collection("Pairing.pairs").findOne({ _id: pairId });
@@ -354,8 +354,8 @@ Deno.test("Query: isPaired - returns true for paired users", async () => {
     const code = (await pairing.generateCode({ user: user1 }) as { code: ID }).code;
     await pairing.acceptPairing({ user: user2, code: code });
 
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
-    assertEquals(await pairing.isPaired({ user: user2 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: true });
   } finally {
     await client.close();
   }
@@ -366,11 +366,11 @@ Deno.test("Query: isPaired - returns false for unpaired users", async () => {
   const pairing = new PairingConcept(db);
 
   try {
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
 
     // User who generated code but not yet paired
     await pairing.generateCode({ user: user3 });
-    assertEquals(await pairing.isPaired({ user: user3 }), false);
+    assertEquals(await pairing.isPaired({ user: user3 }), { isPaired: false });
   } finally {
     await client.close();
   }
@@ -386,8 +386,8 @@ Deno.test("Query: isPaired - returns false after dissolution", async () => {
     const pairId = (await pairing.acceptPairing({ user: user2, code: code }) as { pair: ID }).pair;
     await pairing.dissolvePair({ pair: pairId });
 
-    assertEquals(await pairing.isPaired({ user: user1 }), false);
-    assertEquals(await pairing.isPaired({ user: user2 }), false);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: false });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: false });
   } finally {
     await client.close();
   }
@@ -433,11 +433,11 @@ Deno.test("Edge Case: concurrent acceptance of same code", async () => {
     assertExists(successfulAcceptor);
 
     // Verify only successful acceptor is paired
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
-    assertEquals(await pairing.isPaired({ user: successfulAcceptor as ID }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
+    assertEquals(await pairing.isPaired({ user: successfulAcceptor as ID }), { isPaired: true });
     
     const unsuccessfulAcceptor = (successfulAcceptor === user2) ? user3 : user2;
-    assertEquals(await pairing.isPaired({ user: unsuccessfulAcceptor as ID }), false);
+    assertEquals(await pairing.isPaired({ user: unsuccessfulAcceptor as ID }), { isPaired: false });
   } finally {
     await client.close();
   }
@@ -462,15 +462,15 @@ Deno.test("Edge Case: generator gets paired while trying to accept another code"
 
     // User2 accepting codeA should succeed
     assertExists((user2AcceptResult as { pair: ID }).pair);
-    assertEquals(await pairing.isPaired({ user: user1 }), true);
-    assertEquals(await pairing.isPaired({ user: user2 }), true);
+    assertEquals(await pairing.isPaired({ user: user1 }), { isPaired: true });
+    assertEquals(await pairing.isPaired({ user: user2 }), { isPaired: true });
 
     // User1 accepting codeB should fail
     assertExists((user1AcceptResult as { error: string }).error);
     assertEquals((user1AcceptResult as { error: string }).error.includes("is already in an active pair"), true);
 
     // User3 should not be paired
-    assertEquals(await pairing.isPaired({ user: user3 }), false);
+    assertEquals(await pairing.isPaired({ user: user3 }), { isPaired: false });
   } finally {
     await client.close();
   }
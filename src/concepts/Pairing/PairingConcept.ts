@@ -150,9 +150,15 @@ export default class PairingConcept {
     };
 
     try {
-      // Atomically insert the new pair and remove the pending code
+      // Pair, then claim the code by deleting it only if it is still pending, so that of
+      // concurrent acceptances only one claims it, and the others withdraw their pair.
+      // When flows run in transactions, the pair and the claimed code commit together.
       await this.pairs.insertOne(newPair);
-      await this.pendingCodes.deleteOne({ _id: code });
+      const claimed = await this.pendingCodes.deleteOne({ _id: code, generatorUser });
+      if (claimed.deletedCount === 0) {
+        await this.pairs.deleteOne({ _id: newPairId });
+        return { error: `Pairing code ${code} is invalid or has already been used.` };
+      }
       
       // Create shared group conversation for the paired users
       try {
@@ -249,14 +255,14 @@ export default class PairingConcept {
   }
 
   /**
-   * isPaired (user: User): (Boolean)
+   * isPaired (user: User): (isPaired: Boolean)
    *
-   * **effects**: Returns `true` if the specified `user` is currently in an active pair, `false` otherwise.
+   * **effects**: Returns `isPaired` as `true` if the specified `user` is currently in an active pair, `false` otherwise.
    */
-  async isPaired({ user }: { user: User }): Promise<boolean> {
+  async isPaired({ user }: { user: User }): Promise<{ isPaired: boolean }> {
     // Check for the existence of an active pair involving the user
     const activePair = await this.pairs.findOne({ $or: [{ user1: user }, { user2: user }], active: true });
-    return !!activePair; // Convert truthiness to boolean
+    return { isPaired: !!activePair }; // Convert truthiness to boolean
   }
 
   /**
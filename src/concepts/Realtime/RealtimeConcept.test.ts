@@ -0,0 +1,103 @@
+import { assertEquals } from "jsr:@std/assert";
+import { ID } from "@utils/types.ts";
+import RealtimeConcept, { RealtimeEvent } from "./RealtimeConcept.ts";
+
+const alice = "connection-alice" as ID;
+const bob = "connection-bob" as ID;
+const aliceUser = "user-alice" as ID;
+const bobUser = "user-bob" as ID;
+
+// Reads the events of a connection until it disconnects
+async function collect(events: AsyncGenerator<RealtimeEvent>) {
+  const collected: RealtimeEvent[] = [];
+  for await (const event of events) collected.push(event);
+  return collected;
+}
+
+// ===== OPERATIONAL PRINCIPLE TEST =====
+
+Deno.test("Principle: Subscribers receive the events published to their topics until they leave", async () => {
+  const realtime = new RealtimeConcept();
+
+  console.log("\n=== Operational Principle Test ===");
+
+  // 1. Two clients connect and subscribe to the same conversation
+  console.log("Step 1: Connecting and subscribing two clients");
+  await realtime.connect({ connection: alice, user: aliceUser });
+  await realtime.connect({ connection: bob, user: bobUser });
+  const [{ events: aliceEvents }] = await realtime._listen({ connection: alice });
+  const [{ events: bobEvents }] = await realtime._listen({ connection: bob });
+  const aliceReceived = collect(aliceEvents);
+  const bobReceived = collect(bobEvents);
+  await realtime.subscribe({ connection: alice, topic: "conversation-1" });
+  await realtime.subscribe({ connection: bob, topic: "conversation-1" });
+
+  // 2. An event published to the conversation reaches both
+  console.log("Step 2: Publishing a message to both");
+  const published = await realtime.publish({ topic: "conversation-1", event: "message", content: "Hi" });
+  assertEquals(published, { topic: "conversation-1", delivered: 2 });
+
+  // 3. Bob unsubscribes, and only Alice receives the next event
+  console.log("Step 3: Publishing after Bob unsubscribes");
+  await realtime.unsubscribe({ connection: bob, topic: "conversation-1" });
+  await realtime.publish({ topic: "conversation-1", event: "message", content: "Still there?" });
+  await realtime.publish({ topic: "conversation-2", event: "message", content: "Elsewhere" });
+
+  // 4. Disconnecting ends the events of each client
+  console.log("Step 4: Disconnecting both");
+  await realtime.disconnect({ connection: alice });
+  await realtime.disconnect({ connection: bob });
+  assertEquals((await aliceReceived).map(({ data }) => data.content), ["Hi", "Still there?"]);
+  assertEquals(await bobReceived, [{ event: "message", topic: "conversation-1", data: { content: "Hi" } }]);
+  console.log("  -> Each client received only the events of its topics");
+});
+
+// ===== ACTION TESTS =====
+
+Deno.test("Action: connect - existing connection", async () => {
+  const realtime = new RealtimeConcept();
+  await realtime.connect({ connection: alice, user: aliceUser });
+  assertEquals(await realtime.connect({ connection: alice, user: aliceUser }), {
+    error: "Connection connection-alice already exists",
+  });
+});
+
+Deno.test("Action: subscribe - unknown connection", async () => {
+  const realtime = new RealtimeConcept();
+  assertEquals(await realtime.subscribe({ connection: alice, topic: "conversation-1" }), {
+    error: "Connection connection-alice not found",
+  });
+});
+
+Deno.test("Action: unsubscribe - topic not subscribed to", async () => {
+  const realtime = new RealtimeConcept();
+  await realtime.connect({ connection: alice, user: aliceUser });
+  assertEquals(await realtime.unsubscribe({ connection: alice, topic: "conversation-1" }), {
+    error: "Connection connection-alice is not subscribed to conversation-1",
+  });
+});
+
+Deno.test("Action: disconnect - removes the subscriptions of the connection", async () => {
+  const realtime = new RealtimeConcept();
+  await realtime.connect({ connection: alice, user: aliceUser });
+  await realtime.subscribe({ connection: alice, topic: "conversation-1" });
+  assertEquals(await realtime._getSubscribers({ topic: "conversation-1" }), [{ connection: alice }]);
+
+  await realtime.disconnect({ connection: alice });
+  assertEquals(await realtime._getSubscribers({ topic: "conversation-1" }), []);
+  assertEquals(await realtime._listen({ connection: alice }), []);
+  assertEquals(await realtime.publish({ topic: "conversation-1", event: "message" }), {
+    topic: "conversation-1",
+    delivered: 0,
+  });
+});
+
+Deno.test("Query: _isConnectionOf - only matches the user who connected", async () => {
+  const realtime = new RealtimeConcept();
+  await realtime.connect({ connection: alice, user: aliceUser });
+  assertEquals(await realtime._isConnectionOf({ connection: alice, user: aliceUser }), [{ connection: alice }]);
+  assertEquals(await realtime._isConnectionOf({ connection: alice, user: bobUser }), []);
+  assertEquals(await realtime._isConnectionOf({ connection: bob, user: bobUser }), []);
+  assertEquals(await realtime._getConnections({ user: aliceUser }), [{ connection: alice }]);
+  assertEquals(await realtime._getConnections({ user: bobUser }), []);
+});
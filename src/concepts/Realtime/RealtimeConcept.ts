@@ -0,0 +1,251 @@
+import { Db } from "npm:mongodb";
+import { ID } from "@utils/types.ts";
+
+/**
+ * concept: Realtime
+ *
+ * purpose: Deliver events to connected clients as they happen, rather than
+ * clients polling for them
+ *
+ * principle: After a user connects a client and subscribes it to a topic,
+ * each event published to the topic is pushed to it, until it unsubscribes
+ * from the topic or disconnects
+ */
+
+type Connection = ID;
+type User = ID;
+
+/**
+ * An event published to a topic, as delivered to its subscribers.
+ */
+export interface RealtimeEvent {
+  event: string;
+  topic: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Queues the events of a connection until its client reads them.
+ */
+class EventQueue {
+  private events: RealtimeEvent[] = [];
+  private wake?: () => void;
+  private closed = false;
+
+  push(event: RealtimeEvent) {
+    if (this.closed) return;
+    this.events.push(event);
+    this.wake?.();
+  }
+
+  close() {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  // Yields events as they are pushed, until the queue is closed
+  async *read(): AsyncGenerator<RealtimeEvent> {
+    while (true) {
+      const event = this.events.shift();
+      if (event !== undefined) {
+        yield event;
+        continue;
+      }
+      if (this.closed) return;
+      await new Promise<void>((resolve) => this.wake = resolve);
+      this.wake = undefined;
+    }
+  }
+}
+
+/**
+ * a set of Connections with
+ *   a user User
+ *   a set of topics String
+ *   a queue of events
+ *
+ * This state is not persisted and lives only in memory, as connections do.
+ */
+interface ConnectionState {
+  user: User;
+  topics: Set<string>;
+  queue: EventQueue;
+}
+
+// Removes a subscriber of a topic, and the topic once it has none left
+function removeSubscriber(
+  subscribers: Map<string, Set<Connection>>,
+  topic: string,
+  connection: Connection,
+) {
+  const connections = subscribers.get(topic);
+  connections?.delete(connection);
+  if (connections?.size === 0) subscribers.delete(topic);
+}
+
+export default class RealtimeConcept {
+  private readonly connections: Map<Connection, ConnectionState> = new Map();
+  private readonly subscribers: Map<string, Set<Connection>> = new Map();
+
+  // Connections only live as long as the server, so nothing is stored
+  constructor(_db?: Db) {}
+
+  /**
+   * connect (connection: Connection, user: User): (connection: Connection) | (error: String)
+   *
+   * **requires**: no Connection `connection` exists
+   *
+   * **effects**: Creates the Connection `connection` of `user`, subscribed to no topics
+   */
+  connect(
+    { connection, user }: { connection: Connection; user: User },
+  ): { connection: Connection } | { error: string } {
+    if (this.connections.has(connection)) {
+      return { error: `Connection ${connection} already exists` };
+    }
+    this.connections.set(connection, {
+      user,
+      topics: new Set(),
+      queue: new EventQueue(),
+    });
+    return { connection };
+  }
+
+  /**
+   * subscribe (connection: Connection, topic: String): (connection: Connection, topic: String) | (error: String)
+   *
+   * **requires**: the Connection `connection` exists
+   *
+   * **effects**: Subscribes `connection` to `topic`, if it is not already
+   */
+  subscribe(
+    { connection, topic }: { connection: Connection; topic: string },
+  ): { connection: Connection; topic: string } | { error: string } {
+    const state = this.connections.get(connection);
+    if (!state) {
+      return { error: `Connection ${connection} not found` };
+    }
+    state.topics.add(topic);
+    let subscribers = this.subscribers.get(topic);
+    if (!subscribers) {
+      subscribers = new Set();
+      this.subscribers.set(topic, subscribers);
+    }
+    subscribers.add(connection);
+    return { connection, topic };
+  }
+
+  /**
+   * unsubscribe (connection: Connection, topic: String): (connection: Connection, topic: String) | (error: String)
+   *
+   * **requires**: the Connection `connection` exists and is subscribed to `topic`
+   *
+   * **effects**: Unsubscribes `connection` from `topic`
+   */
+  unsubscribe(
+    { connection, topic }: { connection: Connection; topic: string },
+  ): { connection: Connection; topic: string } | { error: string } {
+    const state = this.connections.get(connection);
+    if (!state?.topics.has(topic)) {
+      return {
+        error: `Connection ${connection} is not subscribed to ${topic}`,
+      };
+    }
+    state.topics.delete(topic);
+    removeSubscriber(this.subscribers, topic, connection);
+    return { connection, topic };
+  }
+
+  /**
+   * publish (topic: String, event: String, ...data): (topic: String, delivered: Number)
+   *
+   * **requires**: true
+   *
+   * **effects**: Pushes `event` with the remaining data to every Connection subscribed
+   *              to `topic`; returns how many it was delivered to
+   */
+  publish(
+    { topic, event, ...data }: {
+      topic: string;
+      event: string;
+      [key: string]: unknown;
+    },
+  ): { topic: string; delivered: number } {
+    const subscribers = this.subscribers.get(topic) ?? new Set();
+    for (const connection of subscribers) {
+      this.connections.get(connection)?.queue.push({ event, topic, data });
+    }
+    return { topic, delivered: subscribers.size };
+  }
+
+  /**
+   * disconnect (connection: Connection): (connection: Connection) | (error: String)
+   *
+   * **requires**: the Connection `connection` exists
+   *
+   * **effects**: Unsubscribes `connection` from all its topics, ends its events,
+   *              and deletes it
+   */
+  disconnect(
+    { connection }: { connection: Connection },
+  ): { connection: Connection } | { error: string } {
+    const state = this.connections.get(connection);
+    if (!state) {
+      return { error: `Connection ${connection} not found` };
+    }
+    for (const topic of state.topics) {
+      removeSubscriber(this.subscribers, topic, connection);
+    }
+    state.queue.close();
+    this.connections.delete(connection);
+    return { connection };
+  }
+
+  /**
+   * _listen (connection: Connection): (events: AsyncGenerator)
+   *
+   * **effects**: Returns the events pushed to `connection` as they come, ending
+   *              once it disconnects; returns nothing if it does not exist
+   */
+  _listen(
+    { connection }: { connection: Connection },
+  ): { events: AsyncGenerator<RealtimeEvent> }[] {
+    const state = this.connections.get(connection);
+    return state ? [{ events: state.queue.read() }] : [];
+  }
+
+  /**
+   * _getSubscribers (topic: String): (connection: Connection)
+   *
+   * **effects**: Returns each Connection subscribed to `topic`
+   */
+  _getSubscribers({ topic }: { topic: string }): { connection: Connection }[] {
+    const subscribers = this.subscribers.get(topic) ?? new Set();
+    return [...subscribers].map((connection) => ({ connection }));
+  }
+
+  /**
+   * _isConnectionOf (connection: Connection, user: User): (connection: Connection)
+   *
+   * **effects**: Returns `connection` if it exists and is the Connection of `user`,
+   *              nothing otherwise
+   */
+  _isConnectionOf(
+    { connection, user }: { connection: Connection; user: User },
+  ): { connection: Connection }[] {
+    const state = this.connections.get(connection);
+    return state?.user === user ? [{ connection }] : [];
+  }
+
+  /**
+   * _getConnections (user: User): (connection: Connection)
+   *
+   * **effects**: Returns each Connection of `user`
+   */
+  _getConnections({ user }: { user: User }): { connection: Connection }[] {
+    const connections = [...this.connections]
+      .filter(([, state]) => state.user === user)
+      .map(([connection]) => ({ connection }));
+    return connections;
+  }
+}
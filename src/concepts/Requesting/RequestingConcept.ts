@@ -1,6 +1,10 @@
-import { Hono } from "jsr:@hono/hono";
+import { Context, Hono } from "jsr:@hono/hono";
 import { cors } from "jsr:@hono/hono/cors";
+import { upgradeWebSocket } from "jsr:@hono/hono/deno";
+import type { WSContext } from "jsr:@hono/hono/ws";
+import { streamSSE } from "jsr:@hono/hono/streaming";
 import { Collection, Db } from "npm:mongodb";
+import { inFlow } from "@engine";
 import { freshID } from "@utils/database.ts";
 import { ID } from "@utils/types.ts";
 import { exclusions, inclusions } from "./passthrough.ts";
@@ -12,8 +16,11 @@ import "jsr:@std/dotenv/load";
  *
  * - PORT: the port to the server binds, default 10000
  * - REQUESTING_BASE_URL: the base URL prefix for api requests, default "/api"
- * - REQUESTING_TIMEOUT: the timeout for requests, default 10000ms
+ * - REQUESTING_TIMEOUT: the timeout for requests, default 10000ms; streamed requests time out when idle for as long
  * - REQUESTING_SAVE_RESPONSES: whether to persist responses or not, default true
+ * - REQUESTING_DOUBLE_RESPONSE: "warn" or "error" when a request is responded to more than once, default "warn"
+ * - REQUESTING_METRICS_PATH: the path serving sync metrics, when the server is given them, default "/metrics"
+ * - REQUESTING_REALTIME_PATH: the path of the WebSocket endpoint, when the server is given realtime connections, default "/realtime"
  */
 const PORT = parseInt(Deno.env.get("PORT") ?? "8000", 10);
 const REQUESTING_BASE_URL = Deno.env.get("REQUESTING_BASE_URL") ?? "/api";
@@ -30,6 +37,30 @@ const REQUESTING_ALLOWED_DOMAIN = Deno.env.get("REQUESTING_ALLOWED_DOMAIN") ??
 const REQUESTING_SAVE_RESPONSES = Deno.env.get("REQUESTING_SAVE_RESPONSES") ??
   true;
 
+// Path of the Prometheus metrics endpoint, outside of the base URL
+const REQUESTING_METRICS_PATH = Deno.env.get("REQUESTING_METRICS_PATH") ??
+  "/metrics";
+
+// Path of the WebSocket endpoint, outside of the base URL
+const REQUESTING_REALTIME_PATH = Deno.env.get("REQUESTING_REALTIME_PATH") ??
+  "/realtime";
+
+// Choose whether a second response to a request is a warning or an error
+const REQUESTING_DOUBLE_RESPONSE = Deno.env.get("REQUESTING_DOUBLE_RESPONSE") ??
+  "warn";
+
+// Path of the request fired to make the connection of each WebSocket
+const REALTIME_CONNECT_PATH = "/Realtime/connect";
+
+// Methods of the Requesting routes, passed to `request` as the `method` input
+const REQUESTING_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+// Methods whose requests carry a JSON body
+const BODY_METHODS = ["POST", "PUT", "PATCH"];
+
+// Error of requests whose input does not fit the schema of their path
+const INVALID_REQUEST = "Invalid request.";
+
 const PREFIX = "Requesting" + ".";
 
 // --- Type Definitions ---
@@ -42,7 +73,7 @@ type Request = ID;
  */
 interface RequestDoc {
   _id: Request;
-  input: { path: string; [key: string]: unknown };
+  input: { path: string; method?: string; [key: string]: unknown };
   response?: unknown;
   createdAt: Date;
 }
@@ -55,6 +86,86 @@ interface PendingRequest {
   promise: Promise<unknown>;
   resolve: (value: unknown) => void;
   reject: (reason?: unknown) => void;
+  responded: boolean;
+}
+
+/**
+ * An event of a streamed response: a chunk, the response, or an error.
+ */
+interface StreamEvent {
+  event: "chunk" | "response" | "error";
+  data: unknown;
+}
+
+/**
+ * Queues the events of a streamed response until its client reads them.
+ * This state is not persisted and lives only in memory.
+ */
+class EventQueue {
+  public request?: Request;
+  private events: StreamEvent[] = [];
+  private wake?: () => void;
+  private closed = false;
+
+  push(event: StreamEvent) {
+    if (this.closed) return;
+    this.events.push(event);
+    this.wake?.();
+  }
+
+  close() {
+    this.closed = true;
+    this.wake?.();
+  }
+
+  /**
+   * Yields events as they are pushed until the queue is closed, ending
+   * with an error event if none arrives within the timeout.
+   */
+  async *read(timeout: number): AsyncGenerator<StreamEvent> {
+    while (true) {
+      const event = this.events.shift();
+      if (event !== undefined) {
+        yield event;
+        continue;
+      }
+      if (this.closed) return;
+      const idle = await new Promise<boolean>((resolve) => {
+        const timeoutId = setTimeout(() => resolve(true), timeout);
+        this.wake = () => {
+          clearTimeout(timeoutId);
+          resolve(false);
+        };
+      });
+      this.wake = undefined;
+      if (idle) {
+        yield { event: "error", data: { error: "Request timed out." } };
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Connections to which the server pushes events over WebSockets, as the
+ * Realtime concept provides. Connections are made by syncs, on the request
+ * at REALTIME_CONNECT_PATH that the server fires before each upgrade.
+ */
+interface RealtimeConnections {
+  disconnect(input: { connection: ID }): unknown;
+  _listen(
+    input: { connection: ID },
+  ):
+    | { events: AsyncIterable<unknown> }[]
+    | Promise<{ events: AsyncIterable<unknown> }[]>;
+}
+
+/**
+ * A schema for the input of requests at a path, such as those built with
+ * `schema` from "@engine": returns the errors of its fields, if any.
+ */
+interface RequestSchema {
+  check(input: unknown): { field: string; message: string }[];
 }
 
 /**
@@ -64,6 +175,8 @@ interface PendingRequest {
 export default class RequestingConcept {
   private readonly requests: Collection<RequestDoc>;
   private readonly pending: Map<Request, PendingRequest> = new Map();
+  // Queues of streamed responses, by stream until requested, then by request
+  private readonly streams: Map<string, EventQueue> = new Map();
   private readonly timeout: number;
 
   constructor(private readonly db: Db) {
@@ -75,15 +188,16 @@ export default class RequestingConcept {
   }
 
   /**
-   * request (path: String, ...): (request: Request)
+   * request (path: String, method: String, ...): (request: Request)
    * System action triggered by an external HTTP request.
    *
    * **requires** true
    *
-   * **effects** creates a new Request `r`; sets the input of `r` to be the path and all other input parameters; returns `r` as `request`
+   * **effects** creates a new Request `r`; sets the input of `r` to be the path, the HTTP method and all other input parameters; returns `r` as `request`.
+   * If `stream` names a stream opened by `_openStream`, the response to `r` is sent to it.
    */
   async request(
-    inputs: { path: string; [key: string]: unknown },
+    inputs: { path: string; method?: string; [key: string]: unknown },
   ): Promise<{ request: Request }> {
     const requestId = freshID() as Request;
     const requestDoc: RequestDoc = {
@@ -103,35 +217,115 @@ export default class RequestingConcept {
       reject = rej;
     });
 
-    this.pending.set(requestId, { promise, resolve, reject });
+    this.pending.set(requestId, { promise, resolve, reject, responded: false });
+
+    // Link the stream the client is reading to the request, if any.
+    const queue = typeof inputs.stream === "string"
+      ? this.streams.get(inputs.stream)
+      : undefined;
+    if (queue) {
+      this.streams.delete(inputs.stream as string);
+      queue.request = requestId;
+      this.streams.set(requestId, queue);
+    }
 
     return { request: requestId };
   }
 
   /**
-   * respond (request: Request, [key: string]: unknown)
+   * respond (request: Request, [key: string]: unknown): (request: Request) | (error: String)
    *
    * **requires** a Request with the given `request` id exists and has no response yet
    *
    * **effects** sets the response of the given Request to the provided key-value pairs.
+   * A later response to the same Request is ignored with a warning, or returned as an
+   * error if REQUESTING_DOUBLE_RESPONSE is "error".
    */
   async respond(
     { request, ...response }: { request: Request; [key: string]: unknown },
-  ): Promise<{ request: string }> {
+  ): Promise<{ request: string } | { error: string }> {
     const pendingRequest = this.pending.get(request);
-    if (pendingRequest) {
+    let duplicate = pendingRequest?.responded ?? false;
+    if (pendingRequest && !duplicate) {
       // Resolve the promise for any waiting `_awaitResponse` call.
+      pendingRequest.responded = true;
       pendingRequest.resolve(response);
     }
 
-    // Update the persisted request document with the response.
-    if (REQUESTING_SAVE_RESPONSES) {
-      await this.requests.updateOne({ _id: request }, { $set: { response } });
+    // Send the response to a client reading the request as a stream, ending it.
+    const queue = duplicate ? undefined : this.streams.get(request);
+    if (queue) {
+      queue.push({ event: "response", data: response });
+      queue.close();
+      this.streams.delete(request);
+    }
+
+    // Update the persisted request document with the response, unless it already has one.
+    if (REQUESTING_SAVE_RESPONSES && !duplicate) {
+      const result = await this.requests.updateOne(
+        { _id: request, response: { $exists: false } },
+        { $set: { response } },
+      );
+      // A request no longer pending may have been responded to before
+      duplicate = !pendingRequest && result.matchedCount === 0 &&
+        (await this.requests.countDocuments({ _id: request })) > 0;
+    }
+
+    if (duplicate) {
+      const message =
+        `Request ${request} already received a response; ignoring ${
+          JSON.stringify(response)
+        }`;
+      if (REQUESTING_DOUBLE_RESPONSE === "error") {
+        console.error(`[Requesting] ${message}`);
+        return { error: message };
+      }
+      console.warn(`[Requesting] ${message}`);
     }
 
     return { request };
   }
 
+  /**
+   * stream (request: Request, [key: string]: unknown): (request: Request)
+   *
+   * **requires** true
+   *
+   * **effects** sends the provided key-value pairs as a chunk of the response to the given Request,
+   * if its client reads the response as a stream; otherwise does nothing.
+   */
+  stream(
+    { request, ...chunk }: { request: Request; [key: string]: unknown },
+  ): Promise<{ request: Request }> {
+    this.streams.get(request)?.push({ event: "chunk", data: chunk });
+    return Promise.resolve({ request });
+  }
+
+  /**
+   * _openStream (stream: String): (events: AsyncGenerator, abort: Function)
+   *
+   * **effects** opens a stream for a request to be made with the given `stream` input; returns the
+   * events of its response as they come, timing out when idle, and a function to abort reading them.
+   */
+  _openStream(
+    { stream }: { stream: string },
+  ): Promise<
+    { events: AsyncGenerator<StreamEvent>; abort: () => void }[]
+  > {
+    const queue = new EventQueue();
+    this.streams.set(stream, queue);
+    const abort = () => {
+      queue.close();
+      this.streams.delete(stream);
+      if (queue.request !== undefined) {
+        this.streams.delete(queue.request);
+        // No `_awaitResponse` call cleans up after a streamed request.
+        this.pending.delete(queue.request);
+      }
+    };
+    return Promise.resolve([{ events: queue.read(this.timeout), abort }]);
+  }
+
   /**
    * _awaitResponse (request: Request): (response: unknown)
    *
@@ -176,6 +370,26 @@ export default class RequestingConcept {
   }
 }
 
+/**
+ * Reads the input of an HTTP request: the query string, in which repeated
+ * parameters become arrays, along with the fields of the JSON body for
+ * methods that carry one. Returns undefined if the body is not an object.
+ */
+async function requestInput(
+  c: Context,
+): Promise<Record<string, unknown> | undefined> {
+  const input: Record<string, unknown> = {};
+  for (const [key, values] of Object.entries(c.req.queries())) {
+    input[key] = values.length === 1 ? values[0] : values;
+  }
+  if (!BODY_METHODS.includes(c.req.method)) return input;
+  const body = await c.req.json().catch(() => undefined);
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    return undefined;
+  }
+  return { ...input, ...body };
+}
+
 /**
  * Starts the Hono web server that listens for incoming requests and pipes them
  * into the Requesting concept instance. Additionally, it allows passthrough
@@ -185,12 +399,84 @@ export default class RequestingConcept {
 export function startRequestingServer(
   // deno-lint-ignore no-explicit-any
   concepts: Record<string, any>,
+  { metrics, realtime, schemas = {} }: {
+    // Metrics to serve, such as a SyncMetrics listening to the engine
+    metrics?: { toPrometheus(): string };
+    // Connections to push events to over WebSockets, such as the Realtime concept
+    realtime?: RealtimeConnections;
+    // Schemas that requests must fit before being requested, by path
+    schemas?: Record<string, RequestSchema>;
+  } = {},
 ) {
   // deno-lint-ignore no-unused-vars
   const { Requesting, client, db, Engine, ...instances } = concepts;
   if (!(Requesting instanceof RequestingConcept)) {
     throw new Error("Requesting concept missing or broken.");
   }
+
+  /**
+   * Fires a request and returns its response as soon as it is given, while
+   * the rest of its synchronizations carry on: the request only returns once
+   * they have all run, so its response is read from a stream instead. When
+   * flows run in transactions, the response is held until the flow of the
+   * request has committed, and a flow rolled back fails the request. The
+   * request times out REQUESTING_TIMEOUT after it was made.
+   */
+  const requestResponse = async (
+    inputs: { path: string; [key: string]: unknown },
+  ) => {
+    const stream = freshID();
+    const flow = freshID();
+    const [{ events, abort }] = await Requesting._openStream({ stream });
+    let timeoutId: number | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error("Request timed out.")),
+        REQUESTING_TIMEOUT,
+      );
+    });
+    // Whether the flow of the request committed, once it has settled
+    let unlisten = () => {};
+    const committed = Engine?.transactions === undefined
+      ? undefined
+      : new Promise<boolean>((resolve) => {
+        unlisten = Engine.listen({
+          completed(done: string, _duration: number, rolledBack: boolean) {
+            if (done === flow) resolve(!rolledBack);
+          },
+        });
+      });
+    Requesting.request(inFlow(flow, { ...inputs, stream })).catch(
+      (e: unknown) => {
+        console.error(`[Requesting] Error processing request:`, e);
+        abort();
+      },
+    );
+    const respond = async () => {
+      for await (const { event, data } of events) {
+        if (event === "response") return data;
+        if (event === "error") throw new Error("Request timed out.");
+      }
+      throw new Error("Request ended without a response.");
+    };
+    const responded = respond();
+    // Aborting ends the events, failing a response no longer waited for
+    responded.catch(() => {});
+    try {
+      const response = await Promise.race([responded, timedOut]);
+      if (
+        committed !== undefined && !await Promise.race([committed, timedOut])
+      ) {
+        throw new Error("Request was rolled back.");
+      }
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+      unlisten();
+      abort();
+    }
+  };
+
   const app = new Hono();
   app.use(
     "/*",
@@ -199,6 +485,168 @@ export function startRequestingServer(
     }),
   );
 
+  if (metrics !== undefined) {
+    app.get(
+      REQUESTING_METRICS_PATH,
+      (c) =>
+        c.text(metrics.toPrometheus(), 200, {
+          "Content-Type": "text/plain; version=0.0.4",
+        }),
+    );
+    console.log(`\n📈 Serving metrics at ${REQUESTING_METRICS_PATH}`);
+  }
+
+  /**
+   * REALTIME ROUTE
+   *
+   * Each WebSocket is a connection, to which the events published to the
+   * topics it subscribes to are pushed. The session is kept out of the URL,
+   * where logs would record it: the first message on a socket must give it,
+   * as `{ "session": ... }`, within REQUESTING_TIMEOUT. The server then fires
+   * a `request` at REALTIME_CONNECT_PATH with the session and a fresh
+   * `connection`, whose syncs bind it to the user of the session, and
+   * answers with its response; the socket is closed if the session is
+   * missing or its response is an error. Later messages are JSON requests
+   * with a `path`, fired as `request` actions along with the `connection`,
+   * and the session given when connecting unless they have their own. Each
+   * is answered by a `response` event, with the `id` of the message if any.
+   * The socket is closed once the connection is ended.
+   */
+
+  if (realtime !== undefined) {
+    app.get(
+      REQUESTING_REALTIME_PATH,
+      upgradeWebSocket(() => {
+        const connection = freshID();
+        let session: string | undefined;
+        // Whether the socket connected, once its first message is answered
+        let connected: Promise<boolean> | undefined;
+        let unauthenticated: number | undefined;
+
+        // Sends the events of the connection until it ends
+        const pump = async (ws: WSContext) => {
+          const listening = await realtime._listen({ connection });
+          for (const { events } of listening) {
+            for await (const event of events) {
+              // Events may still come between closing and disconnecting
+              if (ws.readyState === 1) ws.send(JSON.stringify(event));
+            }
+          }
+          if (ws.readyState === 1) ws.close(1000, "Disconnected.");
+        };
+
+        // Connects the socket with the session of its first message
+        const connect = async (
+          input: { id?: unknown; session?: unknown } | null | undefined,
+          ws: WSContext,
+        ) => {
+          clearTimeout(unauthenticated);
+          const id = input?.id;
+          const given = input?.session;
+          if (typeof given !== "string" || given === "") {
+            ws.close(1008, "A session is required to connect.");
+            return false;
+          }
+          let response;
+          try {
+            response = await requestResponse({
+              path: REALTIME_CONNECT_PATH,
+              session: given,
+              connection,
+            });
+          } catch (e) {
+            console.error(`[Requesting] Error connecting:`, e);
+            ws.close(1011, "Could not connect.");
+            return false;
+          }
+          if (
+            typeof response === "object" && response !== null &&
+            "error" in response
+          ) {
+            ws.send(JSON.stringify({ event: "error", id, data: response }));
+            ws.close(1008, "Could not connect.");
+            return false;
+          }
+          session = given;
+          ws.send(JSON.stringify({ event: "response", id, data: response }));
+          pump(ws).catch((e) => {
+            console.error(`[Requesting] Error sending events:`, e);
+            ws.close(1011, "Could not send events.");
+          });
+          return true;
+        };
+
+        return {
+          onOpen(_, ws) {
+            unauthenticated = setTimeout(
+              () => ws.close(1008, "A session is required to connect."),
+              REQUESTING_TIMEOUT,
+            );
+          },
+          async onMessage(message, ws) {
+            let input;
+            try {
+              input = JSON.parse(String(message.data));
+            } catch {
+              input = undefined;
+            }
+            if (connected === undefined) {
+              connected = connect(input, ws);
+              return;
+            }
+            // Messages sent while connecting wait for it
+            if (!await connected) return;
+            if (
+              typeof input !== "object" || input === null ||
+              typeof input.path !== "string"
+            ) {
+              ws.send(JSON.stringify({
+                event: "error",
+                data: {
+                  error: "Invalid message. Must be a JSON object with a path.",
+                },
+              }));
+              return;
+            }
+            const { id, ...fields } = input;
+            const inputs = { session, ...fields, connection };
+            const errors = schemas[inputs.path]?.check(inputs) ?? [];
+            if (errors.length > 0) {
+              ws.send(JSON.stringify({
+                event: "error",
+                id,
+                data: { error: INVALID_REQUEST, fields: errors },
+              }));
+              return;
+            }
+            try {
+              const response = await requestResponse(inputs);
+              ws.send(
+                JSON.stringify({ event: "response", id, data: response }),
+              );
+            } catch (e) {
+              console.error(`[Requesting] Error processing message:`, e);
+              const error =
+                e instanceof Error && e.message.includes("timed out")
+                  ? "Request timed out."
+                  : "An internal server error occurred.";
+              ws.send(JSON.stringify({ event: "error", id, data: { error } }));
+            }
+          },
+          async onClose() {
+            clearTimeout(unauthenticated);
+            try {
+              if (await connected) await realtime.disconnect({ connection });
+            } catch (e) {
+              console.error(`[Requesting] Error closing connection:`, e);
+            }
+          },
+        };
+      }),
+    );
+    console.log(`\n🔌 Serving realtime events at ${REQUESTING_REALTIME_PATH}`);
+  }
+
   /**
    * PASSTHROUGH ROUTES
    *
@@ -226,16 +674,19 @@ export function startRequestingServer(
         ? `  -> ${route}`
         : `WARNING - UNVERIFIED ROUTE: ${route}`;
 
-      app.post(route, async (c) => {
+      const passthrough = async (c: Context) => {
         try {
-          const body = await c.req.json().catch(() => ({})); // Handle empty body
-          const result = await concept[method](body);
+          const input = await requestInput(c) ?? {}; // Handle empty body
+          const result = await concept[method](input);
           return c.json(result);
         } catch (e) {
           console.error(`Error in ${conceptName}.${method}:`, e);
           return c.json({ error: "An internal server error occurred." }, 500);
         }
-      });
+      };
+      app.post(route, passthrough);
+      // Queries can also be read with GET, their input in the query string
+      if (method.startsWith("_")) app.get(route, passthrough);
       console.log(msg);
     }
   }
@@ -247,15 +698,18 @@ export function startRequestingServer(
   /**
    * REQUESTING ROUTES
    *
-   * Captures all POST routes under the base URL.
-   * The specific action path is extracted from the URL.
+   * Captures all GET, POST, PUT, PATCH and DELETE routes under the base URL.
+   * The specific action path is extracted from the URL, and the HTTP method
+   * is passed along as `method`, so that synchronizations can match on it.
+   * Clients accepting `text/event-stream` receive the chunks streamed to the
+   * request as server-sent events, followed by the response.
    */
 
   const routePath = `${REQUESTING_BASE_URL}/*`;
-  app.post(routePath, async (c) => {
+  app.on(REQUESTING_METHODS, routePath, async (c) => {
     try {
-      const body = await c.req.json();
-      if (typeof body !== "object" || body === null) {
+      const input = await requestInput(c);
+      if (input === undefined) {
         return c.json(
           { error: "Invalid request body. Must be a JSON object." },
           400,
@@ -266,23 +720,47 @@ export function startRequestingServer(
       // e.g., if base is /api and request is /api/users/create, path is /users/create
       const actionPath = c.req.path.substring(REQUESTING_BASE_URL.length);
 
-      // Combine the path from the URL with the JSON body to form the action's input.
+      // Combine the path and method with the query string and JSON body to form the action's input.
       const inputs = {
-        ...body,
+        ...input,
         path: actionPath,
+        method: c.req.method,
       };
 
-      console.log(`[Requesting] Received request for path: ${inputs.path}`);
+      console.log(
+        `[Requesting] Received ${inputs.method} request for path: ${inputs.path}`,
+      );
 
-      // 1. Trigger the 'request' action.
-      const { request } = await Requesting.request(inputs);
+      // Reject input that does not fit the schema of the path, naming the fields at fault.
+      const errors = schemas[inputs.path]?.check(inputs) ?? [];
+      if (errors.length > 0) {
+        return c.json({ error: INVALID_REQUEST, fields: errors }, 400);
+      }
 
-      // 2. Await the response via the query. This is where the server waits for
-      //    synchronizations to trigger the 'respond' action.
-      const responseArray = await Requesting._awaitResponse({ request });
+      if (c.req.header("Accept")?.includes("text/event-stream")) {
+        // Open the stream before the request, which only returns once its
+        // synchronizations have run, and send its events as they come.
+        const stream = freshID();
+        const [{ events, abort }] = await Requesting._openStream({ stream });
+        Requesting.request({ ...inputs, stream }).catch((e: unknown) => {
+          console.error(`[Requesting] Error processing request:`, e);
+          abort();
+        });
+        return streamSSE(c, async (sse) => {
+          sse.onAbort(abort);
+          try {
+            for await (const { event, data } of events) {
+              await sse.writeSSE({ event, data: JSON.stringify(data) });
+            }
+          } finally {
+            abort();
+          }
+        });
+      }
 
-      // 3. Send the response back to the client.
-      const { response } = responseArray[0];
+      // Trigger the 'request' action, and wait for synchronizations to
+      // trigger the 'respond' action, sending the response back to the client.
+      const response = await requestResponse(inputs);
       return c.json(response);
     } catch (e) {
       if (e instanceof Error) {
@@ -298,7 +776,9 @@ export function startRequestingServer(
   });
 
   console.log(
-    `\n🚀 Requesting server listening for POST requests at base path of ${routePath}`,
+    `\n🚀 Requesting server listening for ${
+      REQUESTING_METHODS.join(", ")
+    } requests at base path of ${routePath}`,
   );
 
   Deno.serve({ port: PORT }, app.fetch);
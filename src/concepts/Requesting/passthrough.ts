@@ -50,6 +50,14 @@ export const exclusions: Array<string> = [
   "/api/Sessioning/cleanupExpiredSessions", // internal helper
   "/api/Sessioning/_getUserBySession", // query for syncs
   
+  // Scheduler - system concept driven by its own timer and syncs
+  "/api/Scheduler/schedule",
+  "/api/Scheduler/scheduleOnce",
+  "/api/Scheduler/cancel",
+  "/api/Scheduler/fire",
+  "/api/Scheduler/_getDue",
+  "/api/Scheduler/_getSchedule",
+
   // Pairing endpoints - all require authentication
   "/api/Pairing/generateCode",
   "/api/Pairing/acceptPairing",
@@ -75,7 +83,20 @@ export const exclusions: Array<string> = [
   "/api/GroupConversation/getHistory",
   "/api/GroupConversation/updateContext",
   "/api/GroupConversation/deleteConversation",
+  "/api/GroupConversation/_isParticipant", // query for syncs
   
+  // Realtime - connections are made over the WebSocket endpoint, and
+  // subscriptions authorized by syncs
+  "/api/Realtime/connect",
+  "/api/Realtime/subscribe",
+  "/api/Realtime/unsubscribe",
+  "/api/Realtime/publish",
+  "/api/Realtime/disconnect",
+  "/api/Realtime/_listen",
+  "/api/Realtime/_getSubscribers",
+  "/api/Realtime/_isConnectionOf",
+  "/api/Realtime/_getConnections",
+
   // ContentCapture endpoints - all require authentication
   "/api/ContentCapture/startCapture",
   "/api/ContentCapture/stopCapture",
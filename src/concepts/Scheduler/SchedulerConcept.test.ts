@@ -0,0 +1,154 @@
+import { testDb } from "@utils/database.ts";
+import { FakeClock } from "@utils/clock.ts";
+import { ID } from "@utils/types.ts";
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import SchedulerConcept, { fireDueSchedules } from "./SchedulerConcept.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+
+const HOUR = 60 * 60 * 1000;
+
+// ===== OPERATIONAL PRINCIPLE TEST =====
+
+Deno.test("Principle: Schedules fire when due, recurring ones again at their next time", async () => {
+  const [db, client] = await testDb();
+  const clock = new FakeClock("2025-01-15T10:30:00Z");
+  const scheduler = new SchedulerConcept(db, clock);
+
+  try {
+    console.log("\n=== Operational Principle Test ===");
+
+    // 1. Set an hourly schedule and a one-shot reminder
+    console.log("Step 1: Scheduling an hourly cleanup and a one-shot reminder");
+    const hourly = await scheduler.schedule({ name: "cleanup", cron: "0 * * * *" });
+    assertExists((hourly as { schedule: string }).schedule);
+    const once = await scheduler.scheduleOnce({ name: "reminder", delay: 2 * HOUR, payload: { user: "alice" } });
+    assertExists((once as { schedule: string }).schedule);
+
+    // 2. Nothing is due before its time
+    console.log("Step 2: Verifying nothing is due yet");
+    assertEquals(await scheduler._getDue({}), []);
+
+    // 3. The hourly schedule fires at the top of the hour
+    console.log("Step 3: Advancing to 11:00 and firing");
+    clock.set("2025-01-15T11:00:00Z");
+    const due = await scheduler._getDue({});
+    assertEquals(due.length, 1);
+    const fired = await scheduler.fire(due[0]);
+    assertEquals((fired as { name: string }).name, "cleanup");
+    const [cleanup] = await scheduler._getSchedule({ name: "cleanup" });
+    assertEquals(cleanup.nextRun, new Date("2025-01-15T12:00:00Z"));
+    assertEquals(await scheduler._getDue({}), []);
+
+    // 4. Both fire at 12:30, and the one-shot schedule ends
+    console.log("Step 4: Advancing to 12:30 and firing both");
+    clock.set("2025-01-15T12:30:00Z");
+    const [first, second] = await scheduler._getDue({});
+    assertEquals((await scheduler.fire(first) as { name: string }).name, "cleanup");
+    const reminder = await scheduler.fire(second);
+    assertEquals((reminder as { payload: unknown }).payload, { user: "alice" });
+    const [ended] = await scheduler._getSchedule({ name: "reminder" });
+    assertEquals(ended.active, false);
+    console.log("  -> One-shot schedule ended after firing");
+  } finally {
+    await client.close();
+  }
+});
+
+// ===== ACTION TESTS =====
+
+Deno.test("Action: schedule - invalid cron expression", async () => {
+  const [db, client] = await testDb();
+  const scheduler = new SchedulerConcept(db, new FakeClock());
+
+  try {
+    const result = await scheduler.schedule({ name: "broken", cron: "61 * * * *" });
+    assertEquals((result as { error: string }).error, "Invalid minute field: 61");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: schedule - rescheduling after a restart keeps the next run", async () => {
+  const [db, client] = await testDb();
+  const clock = new FakeClock("2025-01-15T10:30:00Z");
+
+  try {
+    await new SchedulerConcept(db, clock).schedule({ name: "daily", cron: "0 9 * * *" });
+
+    // A new instance, as after a restart past the scheduled time
+    clock.set("2025-01-16T09:30:00Z");
+    const restarted = new SchedulerConcept(db, clock);
+    await restarted.schedule({ name: "daily", cron: "0 9 * * *" });
+    const [daily] = await restarted._getSchedule({ name: "daily" });
+    assertEquals(daily.nextRun, new Date("2025-01-16T09:00:00Z"));
+    assertEquals((await restarted._getDue({})).length, 1);
+
+    // Changing the cron recomputes the next run
+    await restarted.schedule({ name: "daily", cron: "0 18 * * *" });
+    const [changed] = await restarted._getSchedule({ name: "daily" });
+    assertEquals(changed.nextRun, new Date("2025-01-16T18:00:00Z"));
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: scheduleOnce - negative delay", async () => {
+  const [db, client] = await testDb();
+  const scheduler = new SchedulerConcept(db, new FakeClock());
+
+  try {
+    const result = await scheduler.scheduleOnce({ name: "past", delay: -1 });
+    assertEquals((result as { error: string }).error, "Delay must be a non-negative number of milliseconds");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: cancel - cancelled schedules do not fire", async () => {
+  const [db, client] = await testDb();
+  const clock = new FakeClock("2025-01-15T10:30:00Z");
+  const scheduler = new SchedulerConcept(db, clock);
+
+  try {
+    await scheduler.scheduleOnce({ name: "reminder", delay: HOUR });
+    assertEquals(await scheduler.cancel({ name: "reminder" }), {});
+    clock.advance(2 * HOUR);
+    assertEquals(await fireDueSchedules(scheduler), 0);
+
+    const again = await scheduler.cancel({ name: "reminder" });
+    assertEquals((again as { error: string }).error, "No active schedule named reminder");
+  } finally {
+    await client.close();
+  }
+});
+
+Deno.test("Action: fire - a run fires only once", async () => {
+  const [db, client] = await testDb();
+  const clock = new FakeClock("2025-01-15T10:30:00Z");
+  const scheduler = new SchedulerConcept(db, clock);
+
+  try {
+    const { schedule } = await scheduler.scheduleOnce({ name: "once", delay: 0 }) as { schedule: ID };
+    const results = await Promise.all([
+      scheduler.fire({ schedule }),
+      scheduler.fire({ schedule }),
+    ]);
+    assertEquals(results.filter((result) => "name" in result).length, 1);
+  } finally {
+    await client.close();
+  }
+});
+
+// ===== CRON TESTS =====
+
+Deno.test("Cron: next runs for common expressions", () => {
+  const after = new Date("2025-01-15T10:07:30Z");
+  const next = (expression: string) => nextCronRun(parseCron(expression), after).toISOString();
+  assertEquals(next("* * * * *"), "2025-01-15T10:08:00.000Z");
+  assertEquals(next("*/15 9-17 * * 1-5"), "2025-01-15T10:15:00.000Z");
+  assertEquals(next("30 2 1 * *"), "2025-02-01T02:30:00.000Z");
+  assertEquals(next("0 0 * * 7"), "2025-01-19T00:00:00.000Z");
+  // Restricting both day fields matches either
+  assertEquals(next("0 0 13 * 5"), "2025-01-17T00:00:00.000Z");
+  assertEquals(next("0 0 29 2 *"), "2028-02-29T00:00:00.000Z");
+});
@@ -0,0 +1,283 @@
+import { Collection, Db } from "npm:mongodb";
+import { Empty, ID } from "@utils/types.ts";
+import { freshID } from "@utils/database.ts";
+import { Clock, systemClock } from "@utils/clock.ts";
+import { nextCronRun, parseCron } from "./cron.ts";
+
+/**
+ * concept: Scheduler
+ *
+ * purpose: Trigger behavior at set times, once or on a recurring basis,
+ * without an external caller
+ *
+ * principle: After a schedule is set with a cron expression or a delay,
+ * it fires each time it comes due, and synchronizations can react to its
+ * firing; a recurring schedule then waits for its next time, while a
+ * one-shot schedule ends
+ *
+ * # Scheduler concept configuration
+ * The following environment variables are available:
+ *
+ * - SCHEDULER_INTERVAL: how often to check for due schedules, default 1000ms
+ */
+const PREFIX = "Scheduler" + ".";
+
+const SCHEDULER_INTERVAL = parseInt(
+  Deno.env.get("SCHEDULER_INTERVAL") ?? "1000",
+  10,
+);
+
+type Schedule = ID;
+type Payload = Record<string, unknown>;
+
+/**
+ * a set of Schedules with
+ *   a unique name String
+ *   an optional cron String, absent for one-shot schedules
+ *   a payload Object, passed along whenever the schedule fires
+ *   a nextRun Date
+ *   an optional lastRun Date
+ *   an active Flag
+ */
+interface ScheduleDocument {
+  _id: Schedule;
+  name: string;
+  cron?: string;
+  payload: Payload;
+  nextRun: Date;
+  lastRun?: Date;
+  active: boolean;
+  createdAt: Date;
+}
+
+export default class SchedulerConcept {
+  private schedules: Collection<ScheduleDocument>;
+
+  constructor(
+    private readonly db: Db,
+    private readonly clock: Clock = systemClock,
+  ) {
+    this.schedules = this.db.collection(PREFIX + "schedules");
+  }
+
+  /**
+   * schedule (name: String, cron: String, payload?: Object): (schedule: Schedule) | (error: String)
+   *
+   * **requires**: `cron` is a valid five-field cron expression, evaluated in UTC
+   *
+   * **effects**: Creates an active recurring schedule named `name`, or replaces the cron
+   *              and payload of the existing one, due at the next time matching `cron`.
+   *              A schedule whose cron is unchanged keeps its next run, so that setting
+   *              it again on every restart neither skips nor repeats a run.
+   */
+  async schedule(
+    { name, cron, payload = {} }: { name: string; cron: string; payload?: Payload },
+  ): Promise<{ schedule: Schedule } | { error: string }> {
+    if (!name || !name.trim()) {
+      return { error: "Schedule name is required" };
+    }
+    let nextRun: Date;
+    try {
+      nextRun = nextCronRun(parseCron(cron), this.clock.now());
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+
+    const existing = await this.schedules.findOne({ name });
+    if (existing) {
+      const unchanged = existing.active && existing.cron === cron;
+      await this.schedules.updateOne(
+        { _id: existing._id },
+        {
+          $set: {
+            cron,
+            payload,
+            active: true,
+            nextRun: unchanged ? existing.nextRun : nextRun,
+          },
+        },
+      );
+      return { schedule: existing._id };
+    }
+
+    const schedule = freshID() as Schedule;
+    await this.schedules.insertOne({
+      _id: schedule,
+      name,
+      cron,
+      payload,
+      nextRun,
+      active: true,
+      createdAt: this.clock.now(),
+    });
+    return { schedule };
+  }
+
+  /**
+   * scheduleOnce (name: String, delay: Number, payload?: Object): (schedule: Schedule) | (error: String)
+   *
+   * **requires**: `delay` is a non-negative number of milliseconds
+   *
+   * **effects**: Creates an active one-shot schedule named `name`, or replaces the
+   *              existing one, due `delay` milliseconds from now.
+   */
+  async scheduleOnce(
+    { name, delay, payload = {} }: { name: string; delay: number; payload?: Payload },
+  ): Promise<{ schedule: Schedule } | { error: string }> {
+    if (!name || !name.trim()) {
+      return { error: "Schedule name is required" };
+    }
+    if (typeof delay !== "number" || !Number.isFinite(delay) || delay < 0) {
+      return { error: "Delay must be a non-negative number of milliseconds" };
+    }
+    const nextRun = new Date(this.clock.now().getTime() + delay);
+
+    const existing = await this.schedules.findOne({ name });
+    if (existing) {
+      await this.schedules.updateOne(
+        { _id: existing._id },
+        { $set: { payload, nextRun, active: true }, $unset: { cron: "" } },
+      );
+      return { schedule: existing._id };
+    }
+
+    const schedule = freshID() as Schedule;
+    await this.schedules.insertOne({
+      _id: schedule,
+      name,
+      payload,
+      nextRun,
+      active: true,
+      createdAt: this.clock.now(),
+    });
+    return { schedule };
+  }
+
+  /**
+   * cancel (name: String): Empty | (error: String)
+   *
+   * **requires**: an active schedule named `name` exists
+   *
+   * **effects**: Deactivates the schedule, so that it no longer fires.
+   */
+  async cancel({ name }: { name: string }): Promise<Empty | { error: string }> {
+    const result = await this.schedules.updateOne(
+      { name, active: true },
+      { $set: { active: false } },
+    );
+    if (result.matchedCount === 0) {
+      return { error: `No active schedule named ${name}` };
+    }
+    return {};
+  }
+
+  /**
+   * fire (schedule: Schedule): (schedule: Schedule, name: String, payload: Object, firedAt: Date) | (error: String)
+   *
+   * **requires**: the schedule is active and its next run has passed
+   *
+   * **effects**: Records the run. A recurring schedule becomes due at the next time
+   *              matching its cron after now, so runs missed while stopped fire once;
+   *              a one-shot schedule is deactivated.
+   */
+  async fire(
+    { schedule }: { schedule: Schedule },
+  ): Promise<
+    | { schedule: Schedule; name: string; payload: Payload; firedAt: Date }
+    | { error: string }
+  > {
+    const firedAt = this.clock.now();
+    const doc = await this.schedules.findOne({
+      _id: schedule,
+      active: true,
+      nextRun: { $lte: firedAt },
+    });
+    if (!doc) {
+      return { error: `Schedule ${schedule} is not due` };
+    }
+
+    const update = doc.cron !== undefined
+      ? { lastRun: firedAt, nextRun: nextCronRun(parseCron(doc.cron), firedAt) }
+      : { lastRun: firedAt, active: false };
+    // Only the first of concurrent firings of the same run succeeds
+    const result = await this.schedules.updateOne(
+      { _id: schedule, nextRun: doc.nextRun, active: true },
+      { $set: update },
+    );
+    if (result.modifiedCount === 0) {
+      return { error: `Schedule ${schedule} is not due` };
+    }
+    return { schedule, name: doc.name, payload: doc.payload, firedAt };
+  }
+
+  /**
+   * _getDue (): (schedule: Schedule)
+   *
+   * **effects**: Returns the active schedules whose next run has passed, earliest first.
+   */
+  async _getDue(_: Empty): Promise<{ schedule: Schedule }[]> {
+    const due = await this.schedules
+      .find({ active: true, nextRun: { $lte: this.clock.now() } })
+      .sort({ nextRun: 1 })
+      .toArray();
+    return due.map(({ _id }) => ({ schedule: _id }));
+  }
+
+  /**
+   * _getSchedule (name: String): (schedule: Schedule, cron: String, nextRun: Date, lastRun: Date, active: Flag)
+   *
+   * **effects**: Returns the schedule named `name`, if any.
+   */
+  async _getSchedule({ name }: { name: string }): Promise<
+    {
+      schedule: Schedule;
+      cron?: string;
+      nextRun: Date;
+      lastRun?: Date;
+      active: boolean;
+    }[]
+  > {
+    const doc = await this.schedules.findOne({ name });
+    if (!doc) return [];
+    const { _id, cron, nextRun, lastRun, active } = doc;
+    return [{ schedule: _id, cron, nextRun, lastRun, active }];
+  }
+}
+
+/**
+ * Fires every due schedule. Pass the instrumented `Scheduler` from
+ * "@concepts", so that synchronizations see each firing.
+ */
+export async function fireDueSchedules(Scheduler: SchedulerConcept) {
+  const due = await Scheduler._getDue({});
+  for (const { schedule } of due) {
+    await Scheduler.fire({ schedule });
+  }
+  return due.length;
+}
+
+/**
+ * Checks for due schedules every SCHEDULER_INTERVAL milliseconds, and
+ * returns a function that stops checking.
+ */
+export function startScheduler(
+  Scheduler: SchedulerConcept,
+  { interval = SCHEDULER_INTERVAL }: { interval?: number } = {},
+) {
+  let running = false;
+  const timer = setInterval(async () => {
+    // Skip a check while the previous one is still firing schedules
+    if (running) return;
+    running = true;
+    try {
+      await fireDueSchedules(Scheduler);
+    } catch (e) {
+      console.error("[Scheduler] Error firing schedules:", e);
+    } finally {
+      running = false;
+    }
+  }, interval);
+
+  console.log(`\n⏰ Scheduler checking for due schedules every ${interval}ms`);
+  return () => clearInterval(timer);
+}
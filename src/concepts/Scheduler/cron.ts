@@ -0,0 +1,112 @@
+/**
+ * Parser for five-field cron expressions:
+ *
+ *   minute hour day-of-month month day-of-week
+ *
+ * Each field is `*`, a number, a range (`1-5`), any of these with a step
+ * (`0-30/5`), or a comma-separated list of them. Days of the week run from
+ * 0 (Sunday) to 6, with 7 also accepted for Sunday. Expressions are evaluated
+ * in UTC.
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Whether the day fields were `*`, which changes how they combine
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELDS = [
+  ["minute", 0, 59],
+  ["hour", 0, 23],
+  ["day-of-month", 1, 31],
+  ["month", 1, 12],
+  ["day-of-week", 0, 7],
+] as const;
+
+// Upper bound on the steps taken to find the next run. A step skips a whole
+// month, day or hour that cannot match, so this covers centuries.
+const MAX_STEPS = 10_000;
+
+function parseField(field: string, [name, min, max]: typeof FIELDS[number]) {
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (match === null) {
+      throw new Error(`Invalid ${name} field: ${field}`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === "*" ? min : Number(start);
+    const to = range === "*"
+      ? max
+      : end !== undefined
+      ? Number(end)
+      : step !== undefined
+      ? max
+      : from;
+    const by = step !== undefined ? Number(step) : 1;
+    if (from < min || to > max || from > to || by < 1) {
+      throw new Error(`Invalid ${name} field: ${field}`);
+    }
+    for (let value = from; value <= to; value += by) values.add(value);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `Cron expression must have ${FIELDS.length} fields: ${expression}`,
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, i) =>
+    parseField(field, FIELDS[i])
+  );
+  if (weekdays.delete(7)) weekdays.add(0);
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === "*",
+    anyWeekday: fields[4] === "*",
+  };
+}
+
+function matchesDay(cron: CronExpression, time: Date) {
+  const day = cron.days.has(time.getUTCDate());
+  const weekday = cron.weekdays.has(time.getUTCDay());
+  // As in standard cron, restricting both day fields matches either one
+  if (!cron.anyDay && !cron.anyWeekday) return day || weekday;
+  return day && weekday;
+}
+
+/**
+ * The first time strictly after `after` that matches `cron`.
+ */
+export function nextCronRun(cron: CronExpression, after: Date): Date {
+  const time = new Date(after);
+  time.setUTCSeconds(0, 0);
+  time.setUTCMinutes(time.getUTCMinutes() + 1);
+  for (let step = 0; step < MAX_STEPS; step++) {
+    if (!cron.months.has(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0);
+    } else if (!matchesDay(cron, time)) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0);
+    } else if (!cron.hours.has(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1);
+    } else {
+      return time;
+    }
+  }
+  throw new Error("Cron expression never matches a date.");
+}
@@ -278,13 +278,16 @@ export default class SessioningConcept {
   }
 
   /**
-   * Clean up expired sessions (can be called periodically)
+   * cleanupExpiredSessions (): (deleted: Number)
+   *
+   * **effects**: Deletes all sessions past their expiry, returning how many were deleted.
+   *              Run periodically by the Scheduler.
    */
-  async cleanupExpiredSessions(): Promise<number> {
+  async cleanupExpiredSessions(_: Empty = {}): Promise<{ deleted: number }> {
     const result = await this.sessions.deleteMany({
       expiresAt: { $lt: new Date() },
     });
-    return result.deletedCount;
+    return { deleted: result.deletedCount };
   }
 }
 
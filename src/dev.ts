@@ -0,0 +1,78 @@
+/**
+ * Development entry point: starts the application as `main.ts` does, then
+ * reloads the synchronizations whenever a file in src/syncs changes,
+ * without restarting the server or losing flows in progress.
+ *
+ * Run it with `deno task dev`, which also restarts the process when a
+ * concept changes, since concepts are instantiated once at startup. The
+ * barrel files of "@concepts" and "@syncs" are regenerated on every change.
+ *
+ * Only the changed sync files are imported again, not the modules they
+ * import, so helpers shared between sync files should live in concepts
+ * or utils.
+ */
+import * as path from "jsr:@std/path";
+import { discoverSyncs, generateImports } from "@utils/generate_imports.ts";
+import { loadSyncFiles } from "@utils/syncFiles.ts";
+import { DECLARATIVE_SYNCS_DIR, declarativeOptions } from "./syncs/declarative.ts";
+import type { Sync } from "@engine";
+
+const SYNCS_DIR = Deno.env.get("SYNCS_DIR") ?? "src/syncs";
+// Waits for a burst of file changes, such as an editor saving, to settle
+const RELOAD_DELAY = 200;
+
+// The barrels must exist before "@concepts" and "@syncs" are imported
+await generateImports();
+const concepts = await import("@concepts");
+await import("./main.ts");
+const { Engine } = concepts;
+
+/**
+ * Imports every sync file again, naming its syncs as the "@syncs" barrel
+ * does, along with the declarative syncs.
+ */
+async function loadSyncs(version: number): Promise<Record<string, Sync>> {
+  const syncs: Record<string, Sync> = {};
+  for (const { prefix, importPath } of await discoverSyncs(SYNCS_DIR)) {
+    const url = path.toFileUrl(path.resolve(SYNCS_DIR, importPath));
+    // A fresh query makes Deno evaluate the module again
+    const module = await import(`${url.href}?version=${version}`);
+    for (const [name, func] of Object.entries(module)) {
+      if (typeof func === "function") {
+        syncs[`${prefix}.${name}`] = func as Sync;
+      }
+    }
+  }
+  return {
+    ...syncs,
+    ...await loadSyncFiles(DECLARATIVE_SYNCS_DIR, concepts, declarativeOptions),
+  };
+}
+
+let version = 0;
+async function reload() {
+  version += 1;
+  try {
+    await generateImports();
+    const syncs = await loadSyncs(version);
+    // Replaces all syncs at once, or keeps the previous ones if any is invalid
+    Engine.replace(syncs);
+    Engine.validate();
+    console.log(`\n🔁 Reloaded ${Object.keys(syncs).length} syncs`);
+  } catch (e) {
+    console.error("[dev] Keeping the previous syncs, reload failed:", e);
+  }
+}
+
+const barrel = path.resolve(SYNCS_DIR, "syncs.ts");
+let timer: number | undefined;
+let reloading = Promise.resolve();
+console.log(`\n👀 Watching '${SYNCS_DIR}' for changes`);
+for await (const event of Deno.watchFs(SYNCS_DIR)) {
+  if (event.paths.every((changed) => changed === barrel)) continue;
+  clearTimeout(timer);
+  timer = setTimeout(() => {
+    // Reloads one at a time, in the order of the changes
+    reloading = reloading.then(reload);
+  }, RELOAD_DELAY);
+}
@@ -1,4 +1,10 @@
 import { uuid } from "./util.ts";
+import {
+  ActionJournal,
+  FlowHistory,
+  InMemoryActionJournal,
+  JournalEntry,
+} from "./journal.ts";
 export interface ActionRecord {
   id?: string;
   // deno-lint-ignore ban-types
@@ -8,10 +14,66 @@ export interface ActionRecord {
   output?: Record<string, unknown>;
   synced?: Map<string, string>;
   flow: string;
+  // Sync whose `then` produced this action, and the `when` records it matched
+  sync?: string;
+  causes?: string[];
+  // Flow whose action started this flow, through a global sync
+  origin?: string;
+  // An output reported while the action ran, rather than its result
+  partial?: boolean;
 }
+
+export interface ActionConceptOptions {
+  journal?: ActionJournal;
+  // How long a finished flow is kept in memory for matching, in ms
+  ttl?: number;
+}
+
+const DEFAULT_TTL = 60 * 1000;
+
+// Name of a concept without the conventional "Concept" suffix
+export function conceptName(concept: object) {
+  const constructorName = concept.constructor.name;
+  if (constructorName.endsWith("Concept")) {
+    return constructorName.slice(0, -"Concept".length);
+  }
+  return constructorName;
+}
+
+// Name of an instrumented action, recovered from its bound function
+// deno-lint-ignore ban-types
+export function actionName(action: Function) {
+  // deno-lint-ignore ban-types
+  const bound = (action as { action?: Function }).action;
+  return bound ? bound.name.slice("bound ".length) : "UNDEFINED";
+}
+
 export class ActionConcept {
   actions: Map<string, ActionRecord> = new Map();
   flowIndex: Map<string, ActionRecord[]> = new Map();
+  // Actions kept in memory by action and by concept, for matching across
+  // flows without scanning every action
+  // deno-lint-ignore ban-types
+  private actionIndex: Map<Function, Set<ActionRecord>> = new Map();
+  private conceptIndex: Map<object, Set<ActionRecord>> = new Map();
+  journal: ActionJournal;
+  ttl: number;
+  // Number of actions per flow that have not finished synchronizing
+  private inFlight: Map<string, number> = new Map();
+  // Finished flows still held in memory, in order of completion
+  private finished: Map<string, number> = new Map();
+  // When each unfinished flow started, or was last reopened
+  private started: Map<string, number> = new Map();
+  // Journals that record some flows in place of `journal`, such as replays
+  private diverted: Map<string, ActionJournal> = new Map();
+  private writes: Promise<void> = Promise.resolve();
+  constructor(
+    { journal = new InMemoryActionJournal(), ttl = DEFAULT_TTL }:
+      ActionConceptOptions = {},
+  ) {
+    this.journal = journal;
+    this.ttl = ttl;
+  }
   invoke(record: ActionRecord) {
     let id = record.id;
     const flow = record.flow;
@@ -22,6 +84,31 @@ export class ActionConcept {
     this.actions.set(id, actionRecord);
     const partition = this.flowIndex.get(flow) || [];
     this.flowIndex.set(flow, [...partition, actionRecord]);
+    index(this.actionIndex, record.action, actionRecord);
+    index(this.conceptIndex, record.concept, actionRecord);
+    // A finished flow is reopened by any new action
+    this.finished.delete(flow);
+    const now = Date.now();
+    if (!this.started.has(flow)) this.started.set(flow, now);
+    // Expired flows are also evicted as actions come, in case no flow
+    // finishes for a while
+    this.evict(now);
+    this.inFlight.set(flow, (this.inFlight.get(flow) ?? 0) + 1);
+    const entry: JournalEntry = {
+      id,
+      flow,
+      concept: conceptName(record.concept),
+      action: actionName(record.action),
+      input: record.input,
+      ...(record.sync !== undefined
+        ? { sync: record.sync, causes: record.causes ?? [] }
+        : {}),
+      ...(record.origin !== undefined ? { origin: record.origin } : {}),
+      ...(record.partial ? { partial: true } : {}),
+      invokedAt: new Date(),
+    };
+    const journal = this.journalOf(flow);
+    this.write(() => journal.append(entry));
     // console.log("Invoke:", actionRecord);
     return { id };
   }
@@ -31,13 +118,128 @@ export class ActionConcept {
       throw new Error(`Action with id ${id} not found.`);
     }
     action.output = output;
+    const at = new Date();
+    const journal = this.journalOf(action.flow);
+    this.write(() => journal.complete(id, output, at));
     // console.log("Invoked:", output);
     return { id };
   }
+  /**
+   * Marks the synchronization of an action as finished. A flow completes
+   * once every action in it has settled, and its duration is returned.
+   */
+  settled({ id }: { id: string }) {
+    const action = this.actions.get(id);
+    if (action === undefined) {
+      throw new Error(`Action with id ${id} not found.`);
+    }
+    const flow = action.flow;
+    const remaining = (this.inFlight.get(flow) ?? 1) - 1;
+    if (remaining > 0) {
+      this.inFlight.set(flow, remaining);
+      return { flow, completed: false as const };
+    }
+    this.inFlight.delete(flow);
+    const now = Date.now();
+    const duration = now - (this.started.get(flow) ?? now);
+    this.started.delete(flow);
+    this.finished.set(flow, now);
+    const at = new Date(now);
+    const journal = this.journalOf(flow);
+    this.write(() => journal.completeFlow(flow, at));
+    this.evict(now);
+    return { flow, completed: true as const, duration };
+  }
+  /**
+   * Drops finished flows older than the TTL from memory. Their history
+   * remains available from the journal.
+   */
+  evict(now = Date.now()) {
+    for (const [flow, finishedAt] of this.finished) {
+      if (now - finishedAt < this.ttl) break;
+      this.forget(flow);
+    }
+  }
+  /**
+   * Records the actions of a flow in `journal` rather than the journal of
+   * the concept, until the flow is released.
+   */
+  divert({ flow, journal }: { flow: string; journal: ActionJournal }) {
+    this.diverted.set(flow, journal);
+    return {};
+  }
+  /**
+   * Ends the diversion of a flow, and drops its actions from memory, as
+   * they are kept by neither journal of the concept.
+   */
+  release({ flow }: { flow: string }) {
+    this.diverted.delete(flow);
+    this.forget(flow);
+    return {};
+  }
+  /**
+   * Resolves once all pending journal writes have been applied.
+   */
+  flush() {
+    return this.writes;
+  }
+  // Drops the actions of a flow from memory
+  private forget(flow: string) {
+    for (const record of this.flowIndex.get(flow) ?? []) {
+      if (record.id !== undefined) this.actions.delete(record.id);
+      unindex(this.actionIndex, record.action, record);
+      unindex(this.conceptIndex, record.concept, record);
+    }
+    this.flowIndex.delete(flow);
+    this.finished.delete(flow);
+  }
+  private journalOf(flow: string) {
+    return this.diverted.get(flow) ?? this.journal;
+  }
+  private write(operation: () => void | Promise<void>) {
+    this.writes = this.writes.then(operation).catch((error) => {
+      console.error("Failed to write to action journal:", error);
+    });
+  }
   _getByFlow(flow: string) {
     return this.flowIndex.get(flow);
   }
   _getById(id: string) {
     return this.actions.get(id);
   }
+  // Actions of every flow kept in memory that were invoked as `action`
+  // deno-lint-ignore ban-types
+  _getByAction(action: Function): Iterable<ActionRecord> {
+    return this.actionIndex.get(action) ?? [];
+  }
+  // Actions of every flow kept in memory of the given concept
+  _getByConcept(concept: object): Iterable<ActionRecord> {
+    return this.conceptIndex.get(concept) ?? [];
+  }
+  async _getHistory(flow: string): Promise<FlowHistory | undefined> {
+    await this.flush();
+    return await this.journalOf(flow).getFlow(flow);
+  }
+}
+
+function index<K>(
+  map: Map<K, Set<ActionRecord>>,
+  key: K,
+  record: ActionRecord,
+) {
+  let records = map.get(key);
+  if (records === undefined) {
+    records = new Set();
+    map.set(key, records);
+  }
+  records.add(record);
+}
+
+function unindex<K>(
+  map: Map<K, Set<ActionRecord>>,
+  key: K,
+  record: ActionRecord,
+) {
+  const records = map.get(key);
+  if (records?.delete(record) && records.size === 0) map.delete(key);
 }
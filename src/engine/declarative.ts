@@ -0,0 +1,381 @@
+import { Frames } from "./frames.ts";
+import { exists, isPlainObject, oneOf, path, regex } from "./matchers.ts";
+import { absent, actions } from "./sync.ts";
+import {
+  ActionList,
+  ActionPattern,
+  InstrumentedAction,
+  Mapping,
+  SyncFunctionMap,
+  Vars,
+} from "./types.ts";
+import { SyncIssue, SyncValidationError } from "./validate.ts";
+import { caught } from "./vars.ts";
+
+/**
+ * Syncs described as data, such as parsed from JSON or YAML, rather than
+ * written in TypeScript. Actions and queries are named as
+ * "Concept.action", and variables as strings starting with "$", e.g.
+ *
+ *   when:
+ *     - action: Requesting.request
+ *       input: { path: /Pairing/getPair, session: $session }
+ *       output: { request: $request }
+ *   where:
+ *     - query: Sessioning._getUserBySession
+ *       input: { session: $session }
+ *       output: { user: $user }
+ *   then:
+ *     - action: Pairing.getPair
+ *       input: { user: $user }
+ *
+ * A literal string starting with "$" is written with "$$". Pattern values
+ * can also be matchers: `{ $regex: "@Amimi", as: $content }`,
+ * `{ $oneOf: [a, b] }`, `{ $exists: true }`, or `{ $path: "/:concept/*" }`,
+ * which binds each `:name` segment to `$name`. The error message of a
+ * `catch` or `compensate` clause is `$caught`.
+ */
+export interface SyncDefinitions {
+  syncs?: Record<string, SyncDefinition>;
+  endpoints?: EndpointDefinition[];
+}
+
+export interface SyncDefinition {
+  when: PatternDefinition[];
+  where?: QueryStep[];
+  then: PatternDefinition[];
+  otherwise?: PatternDefinition[];
+  catch?: PatternDefinition[];
+  compensate?: PatternDefinition[];
+  concurrent?: boolean | number;
+  after?: string[];
+  priority?: number;
+  group?: string;
+  global?: boolean;
+}
+
+export interface PatternDefinition {
+  action: string;
+  input?: Mapping;
+  output?: Mapping;
+  absent?: boolean;
+}
+
+/**
+ * A query on each frame, as by `Frames.query`. With `unless`, the frames
+ * for which the query returns nothing are kept instead, unchanged.
+ */
+export interface QueryStep {
+  query: string;
+  input?: Mapping;
+  output?: Record<string, string>;
+  cache?: boolean;
+  unless?: boolean;
+}
+
+/**
+ * Shorthand for a request that fires `action` and responds with its
+ * output: a sync from the request to the action, passing along the
+ * request fields of the variables in `input`, and a sync per list of
+ * output fields in `respond`, responding with those fields. A sync for
+ * the partial output fields in `stream` sends them along as they come.
+ */
+export interface EndpointDefinition {
+  path: string;
+  // HTTP method the endpoint answers, or any if omitted
+  method?: string;
+  // Binds the user of the request's session first, by the `session` step
+  authenticate?: boolean;
+  action: string;
+  input?: Mapping;
+  respond?: string[][];
+  // Partial output fields of the action to stream to the request
+  stream?: string[];
+}
+
+export interface DefinitionOptions {
+  // Action through which requests enter, default "Requesting.request"
+  request?: string;
+  // Action that answers a request, default "Requesting.respond"
+  respond?: string;
+  // Action that streams partial outputs to a request, default "Requesting.stream"
+  stream?: string;
+  // Input field of `request` that routes requests, default "path"
+  route?: string;
+  // Step by which endpoints with `authenticate` look up the user
+  session?: QueryStep;
+}
+
+type QueryFunction = (input: Mapping) => Promise<unknown[]>;
+
+const MATCHERS = ["$regex", "$oneOf", "$exists", "$path"];
+
+function isVariable(value: unknown): value is string {
+  return typeof value === "string" && value.startsWith("$") &&
+    !value.startsWith("$$");
+}
+
+/**
+ * Expands endpoints into the syncs they stand for.
+ */
+export function expandEndpoints(
+  endpoints: EndpointDefinition[],
+  {
+    request = "Requesting.request",
+    respond = "Requesting.respond",
+    stream = "Requesting.stream",
+    route = "path",
+    session,
+  }: DefinitionOptions = {},
+): Record<string, SyncDefinition> {
+  const syncs: Record<string, SyncDefinition> = {};
+  for (const endpoint of endpoints) {
+    const { action, input = {}, respond: responses = [] } = endpoint;
+    const steps = endpoint.authenticate && session ? [session] : [];
+    const produced = new Set(
+      steps.flatMap(({ output = {} }) => Object.values(output)),
+    );
+    const fields = [
+      ...steps.flatMap(({ input = {} }) => Object.values(input)),
+      ...Object.values(input),
+    ].filter((value) => isVariable(value) && !produced.has(value));
+    const routed = {
+      [route]: endpoint.path,
+      ...(endpoint.method !== undefined ? { method: endpoint.method } : {}),
+    };
+    const name = endpoint.method !== undefined
+      ? `${endpoint.method} ${endpoint.path}`
+      : endpoint.path;
+    const requested = {
+      when: [{
+        action: request,
+        input: routed,
+        output: { request: "$request" },
+      }],
+    };
+    syncs[`${name} request`] = {
+      when: [{
+        action: request,
+        input: {
+          ...routed,
+          ...Object.fromEntries(
+            fields.map((variable) => [(variable as string).slice(1), variable]),
+          ),
+        },
+        output: { request: "$request" },
+      }],
+      ...(steps.length > 0 ? { where: steps } : {}),
+      then: [{ action, input }],
+    };
+    for (const outputs of responses) {
+      const bound = Object.fromEntries(
+        outputs.map((field) => [field, `$${field}`]),
+      );
+      syncs[`${name} respond ${outputs.join(",")}`] = {
+        when: [...requested.when, { action, output: bound }],
+        then: [{ action: respond, input: { request: "$request", ...bound } }],
+      };
+    }
+    if (endpoint.stream !== undefined) {
+      const bound = Object.fromEntries(
+        endpoint.stream.map((field) => [field, `$${field}`]),
+      );
+      syncs[`${name} stream ${endpoint.stream.join(",")}`] = {
+        when: [...requested.when, { action, output: bound }],
+        then: [{ action: stream, input: { request: "$request", ...bound } }],
+      };
+    }
+  }
+  return syncs;
+}
+
+/**
+ * Turns sync definitions into syncs to register, looking up the actions
+ * and queries they name in `concepts`. Throws a SyncValidationError
+ * listing every definition that is malformed or names something unknown.
+ */
+export function syncsFromDefinitions(
+  definitions: SyncDefinitions,
+  concepts: Record<string, unknown>,
+  options: DefinitionOptions = {},
+): SyncFunctionMap {
+  const issues: SyncIssue[] = [];
+  const endpoints = definitions.endpoints ?? [];
+  if (endpoints.some(({ authenticate }) => authenticate) && !options.session) {
+    issues.push({
+      severity: "error",
+      message: "Endpoints authenticate, but no `session` step is configured.",
+    });
+  }
+  const all = {
+    ...expandEndpoints(endpoints, options),
+    ...definitions.syncs,
+  };
+
+  const syncs: SyncFunctionMap = {};
+  for (const [name, definition] of Object.entries(all)) {
+    const error = (message: string) =>
+      issues.push({ severity: "error", sync: name, message });
+    // Looks up "Concept.name", an action or a query by its leading "_"
+    const lookup = (qualified: unknown, isQuery: boolean) => {
+      const [concept, member, ...rest] = String(qualified).split(".");
+      const target = concepts[concept] as Record<string, unknown> | undefined;
+      const found = target?.[member];
+      const kind = isQuery ? "query" : "action";
+      if (
+        rest.length > 0 || typeof found !== "function" ||
+        member.startsWith("_") !== isQuery
+      ) {
+        error(`Unknown ${kind} ${qualified}.`);
+        return undefined;
+      }
+      return found;
+    };
+    const clause = (
+      key: "when" | "then" | "otherwise" | "catch" | "compensate",
+    ) => {
+      const patterns = definition[key];
+      if (patterns === undefined) return undefined;
+      if (!Array.isArray(patterns)) {
+        error(`\`${key}\` must be a list of patterns.`);
+        return undefined;
+      }
+      return patterns.map((pattern) => ({
+        ...pattern,
+        resolved: lookup(pattern.action, false) as InstrumentedAction,
+      }));
+    };
+    if (!Array.isArray(definition.when) || definition.when.length === 0) {
+      error("`when` must be a non-empty list of patterns.");
+      continue;
+    }
+    if (!Array.isArray(definition.then)) {
+      error("`then` must be a list of patterns.");
+      continue;
+    }
+    const when = clause("when")!;
+    const then = clause("then")!;
+    const otherwise = clause("otherwise");
+    const catches = clause("catch");
+    const compensate = clause("compensate");
+    const steps = (definition.where ?? []).map((step) => ({
+      ...step,
+      resolved: lookup(step.query, true) as QueryFunction,
+    }));
+    for (const step of steps) {
+      for (const value of Object.values(step.output ?? {})) {
+        if (!isVariable(value)) {
+          error(`Query output ${value} is not a variable.`);
+        }
+      }
+    }
+
+    syncs[name] = (vars: Vars) => {
+      // The same name must stand for the same variable throughout the sync
+      const variables = new Map<string, symbol>();
+      const variable = (value: string) => {
+        const name = value.slice(1);
+        if (name === "caught") return caught;
+        let symbol = variables.get(name);
+        if (symbol === undefined) {
+          symbol = vars[name];
+          variables.set(name, symbol);
+        }
+        return symbol;
+      };
+      const convert = (value: unknown): unknown => {
+        if (typeof value === "string") {
+          if (value.startsWith("$$")) return value.slice(1);
+          if (value.startsWith("$")) return variable(value);
+          return value;
+        }
+        if (!isPlainObject(value)) return value;
+        const operator = MATCHERS.find((key) => key in value);
+        if (operator !== undefined) return matcher(operator, value);
+        return Object.fromEntries(
+          Object.entries(value).map(([key, field]) => [key, convert(field)]),
+        );
+      };
+      const matcher = (operator: string, value: Mapping) => {
+        const as = isVariable(value.as) ? variable(value.as) : undefined;
+        const argument = value[operator];
+        switch (operator) {
+          case "$regex":
+            return regex(new RegExp(String(argument)), as);
+          case "$oneOf":
+            return oneOf(argument as unknown[], as);
+          case "$exists":
+            return exists(as);
+          default: {
+            const pattern = String(argument);
+            const names = [...pattern.matchAll(/:(\w+)/g)].map(([, n]) => n);
+            return path(
+              pattern,
+              Object.fromEntries(names.map((n) => [n, variable(`$${n}`)])),
+            );
+          }
+        }
+      };
+      const mapping = (value: Mapping = {}) => convert(value) as Mapping;
+      const patterns = (
+        list: (PatternDefinition & { resolved: InstrumentedAction })[],
+      ): ActionPattern[] =>
+        actions(
+          ...list.map((pattern) => {
+            const input = mapping(pattern.input);
+            const fields: ActionList =
+              pattern.output !== undefined || pattern.absent
+                ? [pattern.resolved, input, mapping(pattern.output)]
+                : [pattern.resolved, input];
+            return pattern.absent ? absent(fields) : fields;
+          }),
+        );
+      const queries = steps.map((step) => ({
+        ...step,
+        input: mapping(step.input),
+        output: mapping(step.output) as Record<string, symbol>,
+      }));
+
+      const where = async (frames: Frames) => {
+        for (const { resolved, input, output, cache, unless } of queries) {
+          if (!unless) {
+            frames = await frames.query(resolved, input, output, { cache });
+            continue;
+          }
+          const kept = new Frames();
+          for (const frame of frames) {
+            const found = await new Frames(frame).query(resolved, input, {}, {
+              cache,
+            });
+            if (found.length === 0) kept.push(frame);
+          }
+          frames = kept;
+        }
+        return frames;
+      };
+      const binds = queries.flatMap(({ output }) => Object.values(output));
+
+      return {
+        when: patterns(when),
+        ...(queries.length > 0 ? { where, binds } : {}),
+        then: patterns(then),
+        ...(otherwise ? { otherwise: patterns(otherwise) } : {}),
+        ...(catches ? { catch: patterns(catches) } : {}),
+        ...(compensate ? { compensate: patterns(compensate) } : {}),
+        ...(definition.concurrent !== undefined
+          ? { concurrent: definition.concurrent }
+          : {}),
+        ...(definition.after ? { after: definition.after } : {}),
+        ...(definition.priority !== undefined
+          ? { priority: definition.priority }
+          : {}),
+        ...(definition.group !== undefined ? { group: definition.group } : {}),
+        ...(definition.global !== undefined
+          ? { global: definition.global }
+          : {}),
+      };
+    };
+  }
+  if (issues.length > 0) throw new SyncValidationError(issues);
+  return syncs;
+}
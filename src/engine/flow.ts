@@ -0,0 +1,19 @@
+import { FlowLimitReason } from "./types.ts";
+
+/**
+ * System concept for events concerning flows themselves, instrumented by
+ * each SyncConcept as `Flow` so that syncs can react to them.
+ */
+export class FlowConcept {
+  /**
+   * error (sync: String, reason: String, error: String): (error: String)
+   *
+   * **effects** records that the flow was halted when `sync` exceeded a
+   * limit, for the given reason.
+   */
+  error(
+    { error }: { sync: string; reason: FlowLimitReason; error: string },
+  ) {
+    return { error };
+  }
+}
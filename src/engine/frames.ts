@@ -11,6 +11,85 @@ export type ActionFunction<TInput = Mapping, TOutput = Mapping> = (
   input: TInput,
 ) => TOutput;
 
+/**
+ * Key of the variant of an instrumented query that caches its results for
+ * the rest of the flow, until an action of the same concept runs in it.
+ */
+export const cachedQuery = Symbol("cachedQuery");
+
+export interface QueryOptions {
+  // Reuse the results of the same query with the same input in the flow
+  cache?: boolean;
+}
+
+// Picks the cached variant of a query if asked for and available
+function queryFunction<F extends (...args: never[]) => unknown>(
+  f: F,
+  { cache = false }: QueryOptions = {},
+): F {
+  const cached = (f as unknown as Record<symbol, F | undefined>)[cachedQuery];
+  return cache && cached !== undefined ? cached : f;
+}
+
+/**
+ * Reduces a group of frames to the value of a single binding, for use
+ * with `groupBy` and `aggregateFrom`.
+ */
+export interface Aggregate {
+  reduce(frames: Frame[]): unknown;
+}
+
+export type Aggregates = Record<symbol, Aggregate>;
+
+/**
+ * Collects the value of `field` in each frame into an array, or, given a
+ * mapping of names to variables, an object with those names per frame.
+ */
+export function collect(field: symbol | Record<string, symbol>): Aggregate {
+  return {
+    reduce: (frames) =>
+      frames.map((frame) =>
+        typeof field === "symbol" ? frame[field] : Object.fromEntries(
+          Object.entries(field).map(([name, symbol]) => [name, frame[symbol]]),
+        )
+      ),
+  };
+}
+
+// Counts the frames
+export function count(): Aggregate {
+  return { reduce: (frames) => frames.length };
+}
+
+// Sums the numeric values of `field`
+export function sum(field: symbol): Aggregate {
+  return {
+    reduce: (frames) =>
+      frames.reduce((total, frame) => total + Number(frame[field] ?? 0), 0),
+  };
+}
+
+// Key identifying the values of `symbols` in a frame
+function keyOf(frame: Frame, symbols: symbol[]) {
+  return JSON.stringify(symbols.map((symbol) => frame[symbol] ?? null));
+}
+
+// Whether `frame` agrees with every binding of `other` it shares
+function agrees(frame: Frame, other: Frame) {
+  return Object.getOwnPropertySymbols(other).every((symbol) =>
+    !(symbol in frame) ||
+    keyOf(frame, [symbol]) === keyOf(other, [symbol])
+  );
+}
+
+function reduceInto(frame: Frame, group: Frame[], aggregates: Aggregates) {
+  const reduced: Frame = { ...frame };
+  for (const symbol of Object.getOwnPropertySymbols(aggregates)) {
+    reduced[symbol] = aggregates[symbol].reduce(group);
+  }
+  return reduced;
+}
+
 type ExtractSymbolMappings<TOutputMapping, TFunctionOutput> = {
   [
     K in keyof TOutputMapping as TOutputMapping[K] extends symbol
@@ -141,6 +220,7 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
     f: TFunction,
     input: TInputMapping,
     output: TOutputMapping,
+    options?: QueryOptions,
   ): Frames<TNewFrame>;
   query<
     TFunction extends (...args: never[]) => Promise<unknown[]>,
@@ -155,12 +235,15 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
     f: TFunction,
     input: TInputMapping,
     output: TOutputMapping,
+    options?: QueryOptions,
   ): Promise<Frames<TNewFrame>>;
   query(
     f: (...args: never[]) => unknown[] | Promise<unknown[]>,
     input: Record<string, unknown>,
     output: Record<string, symbol>,
+    options?: QueryOptions,
   ): Frames | Promise<Frames> {
+    f = queryFunction(f, options);
     const result = new Frames();
     const promises: Promise<void>[] = [];
 
@@ -238,7 +321,9 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
     f: TFunction,
     input: TInputMapping,
     output: TOutputMapping,
+    options?: QueryOptions,
   ): Promise<Frames<TNewFrame>> {
+    f = queryFunction(f, options);
     const result = new Frames<TNewFrame>();
 
     for (const frame of this) {
@@ -348,4 +433,88 @@ export class Frames<TFrame extends Frame = Frame> extends Array<TFrame> {
 
     return result;
   }
+
+  /**
+   * Groups frames by the values of `by`, replacing each group by a single
+   * frame with the bindings of `aggregates`. Other bindings are kept from
+   * the first frame of the group.
+   *
+   * e.g. `frames.groupBy([user], { [messages]: collect(message), [total]: count() })`
+   */
+  groupBy(by: symbol[], aggregates: Aggregates): Frames {
+    const groups = new Map<string, TFrame[]>();
+    for (const frame of this) {
+      const key = keyOf(frame, by);
+      const group = groups.get(key);
+      if (group === undefined) {
+        groups.set(key, [frame]);
+      } else {
+        group.push(frame);
+      }
+    }
+    const result = new Frames();
+    for (const group of groups.values()) {
+      result.push(reduceInto(group[0], group, aggregates));
+    }
+    return result;
+  }
+
+  /**
+   * Adds the bindings of `aggregates` to each frame, reduced over the frames
+   * of `children` that extend it, such as the results of a query on these
+   * frames. Frames without children are kept, so that an empty list can
+   * still be responded with.
+   *
+   * e.g. `frames.aggregateFrom(await frames.query(...), { [items]: collect({ id, name }) })`
+   */
+  aggregateFrom(children: Frames, aggregates: Aggregates): Frames {
+    const result = new Frames();
+    for (const frame of this) {
+      const group = children.filter((child) => agrees(child, frame));
+      result.push(reduceInto(frame, group, aggregates));
+    }
+    return result;
+  }
+
+  /**
+   * Keeps the first of the frames with the same values of `by`, or with
+   * the same bindings if omitted.
+   */
+  distinct(by?: symbol[]): Frames<TFrame> {
+    const result = new Frames<TFrame>();
+    const seen = new Set<string>();
+    for (const frame of this) {
+      if (by === undefined) {
+        const symbols = Object.getOwnPropertySymbols(frame);
+        const duplicate = result.some((kept) =>
+          Object.getOwnPropertySymbols(kept).length === symbols.length &&
+          symbols.every((symbol) => symbol in kept) && agrees(kept, frame)
+        );
+        if (!duplicate) result.push(frame);
+        continue;
+      }
+      const key = keyOf(frame, by);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      result.push(frame);
+    }
+    return result;
+  }
+
+  /**
+   * Joins with `other` on the variables bound in both, combining each pair
+   * of frames that agree on them. With `left`, frames matching none of
+   * `other` are kept as they are. (Named so as not to shadow Array.join.)
+   */
+  joinWith(other: Frames, { left = false }: { left?: boolean } = {}): Frames {
+    const result = new Frames();
+    for (const frame of this) {
+      const matches = other.filter((candidate) => agrees(frame, candidate));
+      for (const match of matches) {
+        result.push({ ...frame, ...match });
+      }
+      if (left && matches.length === 0) result.push(frame);
+    }
+    return result;
+  }
 }
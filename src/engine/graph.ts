@@ -0,0 +1,234 @@
+import { actionName, conceptName } from "./actions.ts";
+import type { FlowHistory, JournalEntry } from "./journal.ts";
+import { ActionPattern, Mapping, Synchronization } from "./types.ts";
+
+/**
+ * Graphs of how syncs link concept actions, for documentation and
+ * debugging. `syncGraph` draws every action a sync can match or fire,
+ * while `flowGraph` draws the actions of a recorded flow and the syncs
+ * that caused each one. Both render to Mermaid or Graphviz DOT.
+ */
+
+export type GraphFormat = "mermaid" | "dot";
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  kind: "action" | "sync";
+  // Concept whose actions are drawn together
+  concept?: string;
+  error?: boolean;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label?: string;
+  // Edges to `otherwise`, `catch` and `compensate` actions
+  dashed?: boolean;
+}
+
+export interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphOptions {
+  // Input fields that tell apart the occurrences of an action, by
+  // "Concept.action", such as `{ "Requesting.request": "path" }`
+  split?: Record<string, string>;
+}
+
+// Label of an action, with the value of its split field if given
+function actionLabel(
+  name: string,
+  input: Mapping,
+  split: Record<string, string>,
+) {
+  const field = split[name];
+  const value = field !== undefined ? input[field] : undefined;
+  return typeof value === "string" ? `${name} ${value}` : name;
+}
+
+function patternName({ action, concept, selector }: ActionPattern) {
+  if (selector === undefined) {
+    return `${conceptName(concept)}.${actionName(action)}`;
+  }
+  const named = selector.concept !== undefined
+    ? conceptName(selector.concept)
+    : "*";
+  return `${named}.*`;
+}
+
+/**
+ * Graphs the syncs, such as `Engine.syncs`, linking each action a `when`
+ * pattern matches to the sync, and the sync to each action it fires.
+ */
+export function syncGraph(
+  syncs: Record<string, Synchronization> | Synchronization[],
+  { split = {} }: GraphOptions = {},
+): Graph {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  const actionNode = (pattern: ActionPattern) => {
+    const name = patternName(pattern);
+    const label = actionLabel(name, pattern.input, split);
+    let node = nodes.get(`action ${label}`);
+    if (node === undefined) {
+      node = {
+        id: `a${nodes.size}`,
+        label,
+        kind: "action",
+        concept: name.slice(0, name.indexOf(".")),
+      };
+      nodes.set(`action ${label}`, node);
+    }
+    return node.id;
+  };
+  for (const sync of Object.values(syncs)) {
+    const id = `s${nodes.size}`;
+    nodes.set(`sync ${sync.sync}`, { id, label: sync.sync, kind: "sync" });
+    for (const pattern of sync.when) {
+      edges.push({
+        from: actionNode(pattern),
+        to: id,
+        ...(pattern.absent ? { label: "absent", dashed: true } : {}),
+      });
+    }
+    for (const pattern of sync.then) {
+      edges.push({ from: id, to: actionNode(pattern) });
+    }
+    for (const clause of ["otherwise", "catch", "compensate"] as const) {
+      for (const pattern of sync[clause] ?? []) {
+        edges.push({
+          from: id,
+          to: actionNode(pattern),
+          label: clause,
+          dashed: true,
+        });
+      }
+    }
+  }
+  return { nodes: [...nodes.values()], edges };
+}
+
+/**
+ * Graphs the causal chain of a recorded flow, such as returned by
+ * `Engine.Action._getHistory(flow)`: each action is linked from the
+ * actions that caused it, labeled with the sync that fired it.
+ */
+export function flowGraph(
+  flow: FlowHistory | JournalEntry[],
+  { split = {} }: GraphOptions = {},
+): Graph {
+  const entries = Array.isArray(flow) ? flow : flow.actions;
+  const ids = new Map<string, string>();
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+  for (const { id, concept, action, input, output } of entries) {
+    const node = `a${nodes.length}`;
+    ids.set(id, node);
+    nodes.push({
+      id: node,
+      label: actionLabel(`${concept}.${action}`, input, split),
+      kind: "action",
+      concept,
+      ...(output !== undefined && "error" in output ? { error: true } : {}),
+    });
+  }
+  for (const { id, sync, causes = [] } of entries) {
+    for (const cause of causes) {
+      const from = ids.get(cause);
+      // Causes outside the recording are left out
+      if (from === undefined) continue;
+      edges.push({ from, to: ids.get(id)!, label: sync });
+    }
+  }
+  return { nodes, edges };
+}
+
+// Groups action nodes by concept, keeping the order of first appearance
+function byConcept(nodes: GraphNode[]) {
+  const clusters = new Map<string, GraphNode[]>();
+  const loose: GraphNode[] = [];
+  for (const node of nodes) {
+    if (node.concept === undefined || node.concept === "*") {
+      loose.push(node);
+      continue;
+    }
+    const cluster = clusters.get(node.concept) ?? [];
+    cluster.push(node);
+    clusters.set(node.concept, cluster);
+  }
+  return { clusters, loose };
+}
+
+function mermaidText(text: string) {
+  return `"${text.replaceAll('"', "#quot;")}"`;
+}
+
+function dotText(text: string) {
+  return `"${text.replaceAll("\\", "\\\\").replaceAll('"', '\\"')}"`;
+}
+
+/**
+ * Renders a graph as a Mermaid flowchart or a Graphviz DOT digraph, with
+ * the actions of each concept drawn together.
+ */
+export function renderGraph(
+  { nodes, edges }: Graph,
+  format: GraphFormat = "mermaid",
+) {
+  const { clusters, loose } = byConcept(nodes);
+  const lines: string[] = [];
+  if (format === "mermaid") {
+    const node = ({ id, label, kind }: GraphNode) =>
+      kind === "sync"
+        ? `${id}([${mermaidText(label)}])`
+        : `${id}[${mermaidText(label)}]`;
+    lines.push("flowchart LR");
+    for (const [i, [concept, members]] of [...clusters].entries()) {
+      lines.push(`  subgraph c${i} [${mermaidText(concept)}]`);
+      for (const member of members) lines.push(`    ${node(member)}`);
+      lines.push("  end");
+    }
+    for (const member of loose) lines.push(`  ${node(member)}`);
+    for (const { from, to, label, dashed } of edges) {
+      const arrow = dashed ? "-.->" : "-->";
+      const text = label !== undefined ? `|${mermaidText(label)}|` : "";
+      lines.push(`  ${from} ${arrow}${text} ${to}`);
+    }
+    const errors = nodes.filter(({ error }) => error).map(({ id }) => id);
+    if (errors.length > 0) {
+      lines.push("  classDef error stroke:#c00,color:#c00");
+      lines.push(`  class ${errors.join(",")} error`);
+    }
+  } else {
+    const node = ({ id, label, kind, error }: GraphNode) => {
+      const attributes = [
+        `label=${dotText(label)}`,
+        `shape=${kind === "sync" ? "ellipse" : "box"}`,
+        ...(error ? ["color=red"] : []),
+      ];
+      return `${id} [${attributes.join(", ")}];`;
+    };
+    lines.push("digraph syncs {", "  rankdir=LR;");
+    for (const [concept, members] of clusters) {
+      lines.push(`  subgraph ${dotText(`cluster_${concept}`)} {`);
+      lines.push(`    label=${dotText(concept)};`);
+      for (const member of members) lines.push(`    ${node(member)}`);
+      lines.push("  }");
+    }
+    for (const member of loose) lines.push(`  ${node(member)}`);
+    for (const { from, to, label, dashed } of edges) {
+      const attributes = [
+        ...(label !== undefined ? [`label=${dotText(label)}`] : []),
+        ...(dashed ? ["style=dashed"] : []),
+      ];
+      const suffix = attributes.length > 0 ? ` [${attributes.join(", ")}]` : "";
+      lines.push(`  ${from} -> ${to}${suffix};`);
+    }
+    lines.push("}");
+  }
+  return lines.join("\n") + "\n";
+}
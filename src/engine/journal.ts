@@ -0,0 +1,207 @@
+import type { Collection, Db } from "npm:mongodb";
+
+/**
+ * A serializable snapshot of a single action record, as kept by a journal.
+ * Concepts and actions are stored by name, since the live objects cannot
+ * outlive the process.
+ */
+export interface JournalEntry {
+  id: string;
+  flow: string;
+  concept: string;
+  action: string;
+  input: Record<string, unknown>;
+  output?: Record<string, unknown>;
+  // Present for actions produced by a sync rather than an external caller
+  sync?: string;
+  causes?: string[];
+  // Flow whose action started this flow, through a global sync
+  origin?: string;
+  // An output reported while the action ran, rather than its result
+  partial?: boolean;
+  invokedAt: Date;
+  completedAt?: Date;
+}
+
+export interface FlowHistory {
+  flow: string;
+  startedAt: Date;
+  completedAt?: Date;
+  actions: JournalEntry[];
+}
+
+/**
+ * Storage backend for the history of flows. Writes may be asynchronous:
+ * the ActionConcept serializes them, so a backend only needs to apply them
+ * in the order received.
+ */
+export interface ActionJournal {
+  append(entry: JournalEntry): void | Promise<void>;
+  complete(
+    id: string,
+    output: Record<string, unknown>,
+    at: Date,
+  ): void | Promise<void>;
+  completeFlow(flow: string, at: Date): void | Promise<void>;
+  getFlow(
+    flow: string,
+  ): FlowHistory | undefined | Promise<FlowHistory | undefined>;
+}
+
+export interface JournalOptions {
+  // How long the history of a finished flow is retained, in ms
+  retention?: number;
+}
+
+const DEFAULT_RETENTION = 10 * 60 * 1000;
+
+/**
+ * Keeps flow history in process memory, dropping finished flows once they
+ * are older than the retention period.
+ */
+export class InMemoryActionJournal implements ActionJournal {
+  private flows: Map<string, FlowHistory> = new Map();
+  private entries: Map<string, JournalEntry> = new Map();
+  // Finished flows in order of completion
+  private finished: Map<string, number> = new Map();
+  private readonly retention: number;
+
+  constructor({ retention = DEFAULT_RETENTION }: JournalOptions = {}) {
+    this.retention = retention;
+  }
+
+  append(entry: JournalEntry) {
+    let history = this.flows.get(entry.flow);
+    if (history === undefined) {
+      history = { flow: entry.flow, startedAt: entry.invokedAt, actions: [] };
+      this.flows.set(entry.flow, history);
+    }
+    // A flow that receives new actions is no longer finished
+    if (this.finished.delete(entry.flow)) {
+      delete history.completedAt;
+    }
+    history.actions.push(entry);
+    this.entries.set(entry.id, entry);
+    this.evict(entry.invokedAt.getTime());
+  }
+
+  complete(id: string, output: Record<string, unknown>, at: Date) {
+    const entry = this.entries.get(id);
+    if (entry === undefined) return;
+    entry.output = output;
+    entry.completedAt = at;
+  }
+
+  completeFlow(flow: string, at: Date) {
+    const history = this.flows.get(flow);
+    if (history === undefined) return;
+    history.completedAt = at;
+    this.finished.set(flow, at.getTime());
+    this.evict(at.getTime());
+  }
+
+  getFlow(flow: string) {
+    return this.flows.get(flow);
+  }
+
+  private evict(now: number) {
+    for (const [flow, finishedAt] of this.finished) {
+      if (now - finishedAt < this.retention) break;
+      const history = this.flows.get(flow);
+      for (const entry of history?.actions ?? []) {
+        this.entries.delete(entry.id);
+      }
+      this.flows.delete(flow);
+      this.finished.delete(flow);
+    }
+  }
+}
+
+const PREFIX = "Engine" + ".";
+
+interface JournalEntryDocument extends Omit<JournalEntry, "id"> {
+  _id: string;
+  // Position of the action within its flow
+  index: number;
+  expiresAt?: Date;
+}
+
+interface FlowDocument {
+  _id: string;
+  startedAt: Date;
+  completedAt?: Date;
+  expiresAt?: Date;
+  count: number;
+}
+
+/**
+ * Persists flow history to MongoDB, so that it survives restarts.
+ * Finished flows expire through TTL indexes after the retention period.
+ */
+export class MongoActionJournal implements ActionJournal {
+  private readonly actions: Collection<JournalEntryDocument>;
+  private readonly flows: Collection<FlowDocument>;
+  private readonly retention: number;
+  private readonly ready: Promise<unknown>;
+
+  constructor(db: Db, { retention = DEFAULT_RETENTION }: JournalOptions = {}) {
+    this.actions = db.collection(PREFIX + "actions");
+    this.flows = db.collection(PREFIX + "flows");
+    this.retention = retention;
+    this.ready = Promise.all([
+      this.actions.createIndex({ flow: 1, index: 1 }),
+      this.actions.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+      this.flows.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 }),
+    ]);
+  }
+
+  async append({ id, ...entry }: JournalEntry) {
+    await this.ready;
+    const flow = await this.flows.findOneAndUpdate(
+      { _id: entry.flow },
+      {
+        $setOnInsert: { startedAt: entry.invokedAt },
+        $unset: { completedAt: "", expiresAt: "" },
+        $inc: { count: 1 },
+      },
+      { upsert: true, returnDocument: "after" },
+    );
+    const index = (flow?.count ?? 1) - 1;
+    await this.actions.insertOne({ _id: id, index, ...entry });
+  }
+
+  async complete(id: string, output: Record<string, unknown>, at: Date) {
+    await this.actions.updateOne(
+      { _id: id },
+      { $set: { output, completedAt: at } },
+    );
+  }
+
+  async completeFlow(flow: string, at: Date) {
+    const expiresAt = new Date(at.getTime() + this.retention);
+    await this.flows.updateOne(
+      { _id: flow },
+      { $set: { completedAt: at, expiresAt } },
+    );
+    await this.actions.updateMany({ flow }, { $set: { expiresAt } });
+  }
+
+  async getFlow(flow: string): Promise<FlowHistory | undefined> {
+    const doc = await this.flows.findOne({ _id: flow });
+    if (doc === null) return undefined;
+    const docs = await this.actions.find({ flow }).sort({ index: 1 })
+      .toArray();
+    const actions = docs.map(
+      ({ _id, index: _index, expiresAt: _expiresAt, ...entry }) => ({
+        id: _id,
+        ...entry,
+      }),
+    );
+    return {
+      flow,
+      startedAt: doc.startedAt,
+      ...(doc.completedAt ? { completedAt: doc.completedAt } : {}),
+      actions,
+    };
+  }
+}
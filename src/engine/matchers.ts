@@ -0,0 +1,161 @@
+import { Frame } from "./types.ts";
+
+/**
+ * A pattern value that matches a field by something other than equality.
+ * Returns the frame extended with any bindings, or undefined on mismatch.
+ */
+export class Matcher {
+  constructor(
+    public readonly description: string,
+    public readonly match: (value: unknown, frame: Frame) => Frame | undefined,
+    // Variables the matcher may bind, for static validation
+    public readonly bindings: symbol[] = [],
+  ) {}
+  toString() {
+    return this.description;
+  }
+}
+
+/**
+ * Binds `value` to `symbol` in `frame`, or checks it against an existing
+ * binding.
+ */
+export function bind(frame: Frame, symbol: symbol, value: unknown) {
+  const bound = frame[symbol];
+  if (bound === undefined) return { ...frame, [symbol]: value };
+  return bound === value ? frame : undefined;
+}
+
+/**
+ * Matches every field of `pattern` against `mapping`, returning the frame
+ * extended with any bindings. Keys may be dotted paths into nested values,
+ * e.g. `{ "message.sender": sender }`.
+ */
+export function matchFields(
+  mapping: Record<string, unknown>,
+  pattern: Record<string, unknown>,
+  frame: Frame,
+): Frame | undefined {
+  let matched: Frame | undefined = frame;
+  for (const [key, value] of Object.entries(pattern)) {
+    matched = matchValue(lookup(mapping, key), value, matched);
+    if (matched === undefined) return;
+  }
+  return matched;
+}
+
+/**
+ * Matches a single value against a pattern value: a variable binds it, a
+ * Matcher tests it, a plain object matches its fields structurally, and
+ * anything else must be equal.
+ */
+export function matchValue(
+  value: unknown,
+  pattern: unknown,
+  frame: Frame,
+): Frame | undefined {
+  if (value === undefined) return;
+  if (typeof pattern === "symbol") return bind(frame, pattern, value);
+  if (pattern instanceof Matcher) return pattern.match(value, frame);
+  if (isPlainObject(pattern)) {
+    if (value === null || typeof value !== "object") return;
+    return matchFields(value as Record<string, unknown>, pattern, frame);
+  }
+  return value === pattern ? frame : undefined;
+}
+
+// Looks up a key, or failing that, a dotted path through nested objects
+function lookup(mapping: Record<string, unknown>, key: string) {
+  if (key in mapping || !key.includes(".")) return mapping[key];
+  let value: unknown = mapping;
+  for (const part of key.split(".")) {
+    if (value === null || typeof value !== "object") return;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+export function isPlainObject(
+  value: unknown,
+): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+// Binds `value` to `symbol`, if given
+function capture(frame: Frame, symbol: symbol | undefined, value: unknown) {
+  return symbol === undefined ? frame : bind(frame, symbol, value);
+}
+
+function captured(symbol: symbol | undefined) {
+  return symbol === undefined ? [] : [symbol];
+}
+
+/**
+ * Matches strings that satisfy `pattern`, optionally binding the string.
+ *
+ * e.g. `{ content: regex(/@Amimi/, content) }`
+ */
+export function regex(pattern: RegExp, symbol?: symbol) {
+  return new Matcher(`regex(${pattern})`, (value, frame) => {
+    if (typeof value !== "string") return;
+    // Reset stateful global and sticky patterns
+    pattern.lastIndex = 0;
+    return pattern.test(value) ? capture(frame, symbol, value) : undefined;
+  }, captured(symbol));
+}
+
+/**
+ * Matches any one of `values`, optionally binding the value matched.
+ *
+ * e.g. `{ status: oneOf(["success", "pending"], status) }`
+ */
+export function oneOf(values: readonly unknown[], symbol?: symbol) {
+  return new Matcher(`oneOf(${values.join(", ")})`, (value, frame) => {
+    return values.includes(value) ? capture(frame, symbol, value) : undefined;
+  }, captured(symbol));
+}
+
+/**
+ * Matches any value other than null, optionally binding it. Fields absent
+ * from the action never match.
+ *
+ * e.g. `{ error: exists() }`
+ */
+export function exists(symbol?: symbol) {
+  return new Matcher("exists()", (value, frame) => {
+    return value === null ? undefined : capture(frame, symbol, value);
+  }, captured(symbol));
+}
+
+/**
+ * Matches a path against a pattern of `/`-separated segments, where `*`
+ * matches any one segment, a trailing `**` matches any remaining segments,
+ * and `:name` matches any one segment, binding it to `bindings[name]`.
+ *
+ * e.g. `path("/GroupConversation/*")`, or
+ * `path("/:concept/:action", { concept, action })`
+ */
+export function path(pattern: string, bindings: Record<string, symbol> = {}) {
+  const segments = pattern.split("/");
+  return new Matcher(`path(${pattern})`, (value, frame) => {
+    if (typeof value !== "string") return;
+    const parts = value.split("/");
+    let matched: Frame | undefined = frame;
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      if (segment === "**" && i === segments.length - 1) return matched;
+      const part = parts[i];
+      if (part === undefined) return;
+      if (segment.startsWith(":")) {
+        const symbol = bindings[segment.slice(1)];
+        if (symbol !== undefined) matched = bind(matched, symbol, part);
+        if (matched === undefined) return;
+      } else if (segment !== "*" && segment !== part) {
+        return;
+      }
+    }
+    return parts.length === segments.length ? matched : undefined;
+  }, Object.values(bindings));
+}
@@ -0,0 +1,219 @@
+import { actionName, ActionRecord, conceptName } from "./actions.ts";
+import { Frames } from "./frames.ts";
+import { Synchronization, SyncListener } from "./types.ts";
+
+// Upper bounds of the latency buckets, in seconds
+const BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Latencies counted into cumulative buckets, as a Prometheus histogram.
+ */
+export class Histogram {
+  buckets: number[] = BUCKETS.map(() => 0);
+  count = 0;
+  sum = 0;
+  observe(seconds: number) {
+    BUCKETS.forEach((bound, i) => {
+      if (seconds <= bound) this.buckets[i]++;
+    });
+    this.count++;
+    this.sum += seconds;
+  }
+}
+
+export interface SyncStats {
+  // Actions whose synchronization matched the `when` clause
+  matches: number;
+  // Frames remaining after the `where` clause
+  frames: number;
+  // Actions fired by the `then` clause
+  fired: number;
+  latency: Histogram;
+}
+
+export interface ActionStats {
+  // Outputs with an `error` field, including thrown exceptions
+  errors: number;
+  latency: Histogram;
+}
+
+export interface MetricsOptions {
+  // Flows that take longer are logged, in ms, or never when 0
+  slowFlow?: number;
+  log?: (message: string) => void;
+}
+
+function escapeLabel(value: string) {
+  return value.replaceAll("\\", "\\\\").replaceAll('"', '\\"')
+    .replaceAll("\n", "\\n");
+}
+
+/**
+ * Counts what each sync and action does, to be registered with
+ * `Engine.listen(metrics)`. Latency is measured per sync, from matching
+ * an action to the completion of the actions it fired, and per action,
+ * excluding the syncs it triggers. Flows slower than `slowFlow` are
+ * logged with their slowest actions.
+ */
+export class SyncMetrics implements SyncListener {
+  syncs: Map<string, SyncStats> = new Map();
+  actions: Map<string, ActionStats> = new Map();
+  flows = new Histogram();
+  slowFlows = 0;
+  slowFlow: number;
+  private log: (message: string) => void;
+  // Actions run so far by each unfinished flow, when logging slow flows
+  private running: Map<string, [string, number][]> = new Map();
+
+  constructor(
+    { slowFlow = 0, log = console.warn }: MetricsOptions = {},
+  ) {
+    this.slowFlow = slowFlow;
+    this.log = log;
+  }
+
+  private sync(name: string) {
+    let stats = this.syncs.get(name);
+    if (stats === undefined) {
+      stats = { matches: 0, frames: 0, fired: 0, latency: new Histogram() };
+      this.syncs.set(name, stats);
+    }
+    return stats;
+  }
+
+  matched(sync: Synchronization) {
+    this.sync(sync.sync).matches++;
+  }
+  filtered(sync: Synchronization, _: ActionRecord, frames: Frames) {
+    this.sync(sync.sync).frames += frames.length;
+  }
+  fired(sync: Synchronization) {
+    this.sync(sync.sync).fired++;
+  }
+  synced(sync: Synchronization, _: ActionRecord, duration: number) {
+    this.sync(sync.sync).latency.observe(duration / 1000);
+  }
+  performed(record: ActionRecord, duration: number) {
+    const name = `${conceptName(record.concept)}.${actionName(record.action)}`;
+    let stats = this.actions.get(name);
+    if (stats === undefined) {
+      stats = { errors: 0, latency: new Histogram() };
+      this.actions.set(name, stats);
+    }
+    if (record.output !== undefined && "error" in record.output) {
+      stats.errors++;
+    }
+    stats.latency.observe(duration / 1000);
+    if (this.slowFlow > 0) {
+      const running = this.running.get(record.flow) ?? [];
+      running.push([name, duration]);
+      this.running.set(record.flow, running);
+    }
+  }
+  completed(flow: string, duration: number) {
+    this.flows.observe(duration / 1000);
+    const running = this.running.get(flow) ?? [];
+    this.running.delete(flow);
+    if (this.slowFlow <= 0 || duration <= this.slowFlow) return;
+    this.slowFlows++;
+    const slowest = running.sort(([, a], [, b]) => b - a).slice(0, 3)
+      .map(([name, ms]) => `${name} ${Math.round(ms)}ms`);
+    this.log(
+      `Slow flow ${flow} took ${duration}ms over ${running.length} actions` +
+        (slowest.length > 0 ? `, slowest: ${slowest.join(", ")}` : ""),
+    );
+  }
+
+  /**
+   * Renders the metrics in the Prometheus text exposition format.
+   */
+  toPrometheus() {
+    const lines: string[] = [];
+    const header = (name: string, type: string, help: string) =>
+      lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+    const labels = (pairs: Record<string, string>) =>
+      Object.entries(pairs).map(([key, value]) =>
+        `${key}="${escapeLabel(value)}"`
+      );
+    const counter = <T>(
+      name: string,
+      help: string,
+      stats: Map<string, T>,
+      label: string,
+      value: (stats: T) => number,
+    ) => {
+      header(name, "counter", help);
+      for (const [key, entry] of stats) {
+        lines.push(`${name}{${labels({ [label]: key })}} ${value(entry)}`);
+      }
+    };
+    const histogram = (
+      name: string,
+      help: string,
+      entries: [Record<string, string>, Histogram][],
+    ) => {
+      header(name, "histogram", help);
+      for (const [pairs, { buckets, count, sum }] of entries) {
+        const base = labels(pairs);
+        BUCKETS.forEach((bound, i) => {
+          const le = [...base, `le="${bound}"`].join(",");
+          lines.push(`${name}_bucket{${le}} ${buckets[i]}`);
+        });
+        const inf = [...base, `le="+Inf"`].join(",");
+        lines.push(`${name}_bucket{${inf}} ${count}`);
+        const suffix = base.length > 0 ? `{${base.join(",")}}` : "";
+        lines.push(
+          `${name}_sum${suffix} ${sum}`,
+          `${name}_count${suffix} ${count}`,
+        );
+      }
+    };
+
+    counter(
+      "sync_matches_total",
+      "Actions matched by the when clause of a sync.",
+      this.syncs,
+      "sync",
+      ({ matches }) => matches,
+    );
+    counter(
+      "sync_where_frames_total",
+      "Frames produced by the where clause of a sync.",
+      this.syncs,
+      "sync",
+      ({ frames }) => frames,
+    );
+    counter(
+      "sync_then_actions_total",
+      "Actions fired by the then clause of a sync.",
+      this.syncs,
+      "sync",
+      ({ fired }) => fired,
+    );
+    histogram(
+      "sync_duration_seconds",
+      "Time taken by a sync to process a matched action.",
+      [...this.syncs].map(([sync, { latency }]) => [{ sync }, latency]),
+    );
+    counter(
+      "action_errors_total",
+      "Actions that returned or threw an error.",
+      this.actions,
+      "action",
+      ({ errors }) => errors,
+    );
+    histogram(
+      "action_duration_seconds",
+      "Time taken by an action, excluding the syncs it triggers.",
+      [...this.actions].map(([action, { latency }]) => [{ action }, latency]),
+    );
+    histogram(
+      "flow_duration_seconds",
+      "Time from the first action of a flow until it completes.",
+      [[{}, this.flows]],
+    );
+    header("flow_slow_total", "counter", "Flows slower than the threshold.");
+    lines.push(`flow_slow_total ${this.slowFlows}`);
+    return lines.join("\n") + "\n";
+  }
+}
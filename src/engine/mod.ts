@@ -1,3 +1,81 @@
-export { actions, Logging, SyncConcept } from "./sync.ts";
-export { Frames } from "./frames.ts";
-export type { Empty, SyncFunction as Sync, Vars } from "./types.ts";
+export {
+  absent,
+  actions,
+  anyAction,
+  inFlow,
+  Logging,
+  partial,
+  SyncConcept,
+} from "./sync.ts";
+export { caught } from "./vars.ts";
+export { ActionConcept } from "./actions.ts";
+export { collect, count, Frames, sum } from "./frames.ts";
+export { exists, Matcher, oneOf, path, regex } from "./matchers.ts";
+export { invoke, on } from "./typed.ts";
+export { Histogram, SyncMetrics } from "./metrics.ts";
+export { InMemoryActionJournal, MongoActionJournal } from "./journal.ts";
+export {
+  currentSession,
+  MongoFlowTransactions,
+  transactional,
+} from "./transactions.ts";
+export {
+  formatIssues,
+  SyncValidationError,
+  validateOrdering,
+  validateRequests,
+  validateSync,
+} from "./validate.ts";
+export { expandEndpoints, syncsFromDefinitions } from "./declarative.ts";
+export { Schema, schema, validateRequest } from "./schema.ts";
+export {
+  assertActions,
+  assertResponse,
+  SyncAssertionError,
+  SyncHarness,
+} from "./testing.ts";
+export { flowGraph, renderGraph, syncGraph } from "./graph.ts";
+export { formatReplay, fromHistory, parseTrace, replayFlow } from "./replay.ts";
+export type {
+  Empty,
+  FlowLimits,
+  SyncFunction as Sync,
+  SyncListener,
+  Vars,
+} from "./types.ts";
+export type { Aggregate, Aggregates, QueryOptions } from "./frames.ts";
+export type {
+  DefinitionOptions,
+  EndpointDefinition,
+  PatternDefinition,
+  QueryStep,
+  SyncDefinition,
+  SyncDefinitions,
+} from "./declarative.ts";
+export type { ActionStats, MetricsOptions, SyncStats } from "./metrics.ts";
+export type {
+  Graph,
+  GraphEdge,
+  GraphFormat,
+  GraphNode,
+  GraphOptions,
+} from "./graph.ts";
+export type {
+  ExpectedAction,
+  FlowAction,
+  FlowResult,
+  HarnessOptions,
+} from "./testing.ts";
+export type { ActionJournal, FlowHistory, JournalEntry } from "./journal.ts";
+export type { FlowTransactions } from "./transactions.ts";
+export type { RecordedAction, ReplayReport, ReplayStep } from "./replay.ts";
+export type {
+  ActionInput,
+  ActionOutput,
+  FieldPatterns,
+  InvokeInput,
+  OutputPatterns,
+  ValuePattern,
+} from "./typed.ts";
+export type { SyncIssue, ValidationOptions } from "./validate.ts";
+export type { FieldError, RequestSchemas, SchemaShape } from "./schema.ts";
@@ -0,0 +1,406 @@
+import { actionName, ActionRecord, conceptName } from "./actions.ts";
+import { FlowHistory, InMemoryActionJournal, JournalEntry } from "./journal.ts";
+import { frameBindings, inFlow, SyncConcept } from "./sync.ts";
+import { Frames } from "./frames.ts";
+import { Mapping } from "./types.ts";
+import { inspect, uuid } from "./util.ts";
+
+/**
+ * An action as recorded in a flow: either taken from the action journal, or
+ * parsed from a trace of the engine's console output.
+ */
+export interface RecordedAction {
+  concept: string;
+  action: string;
+  input: Mapping;
+  output?: Mapping;
+  // Sync that produced the action, if known
+  sync?: string;
+  // Whether the action entered the flow from outside of the engine
+  external: boolean;
+}
+
+export type ReplayStep =
+  | {
+    kind: "action";
+    concept: string;
+    action: string;
+    input: Mapping;
+    output: Mapping;
+    sync?: string;
+    recorded: boolean;
+  }
+  | { kind: "when"; sync: string; frames: Mapping[] }
+  | { kind: "where"; sync: string; frames: Mapping[] }
+  | {
+    kind: "then";
+    sync: string;
+    concept: string;
+    action: string;
+    input: Mapping;
+  };
+
+export interface ReplayReport {
+  // Flow in which the engine replayed the actions
+  flow: string;
+  // The replayed actions, as a journal records them, with their causes
+  actions: JournalEntry[];
+  steps: ReplayStep[];
+  // Recorded actions that the current syncs no longer produce
+  missing: RecordedAction[];
+  // Actions fired by the current syncs that are absent from the recording
+  unexpected: { concept: string; action: string; input: Mapping }[];
+}
+
+export interface ReplayOptions {
+  // Results for queries run by `where` clauses, keyed by "Concept._query".
+  // A query without an entry fails the replay, rather than reading the live
+  // concept state.
+  queries?: Record<string, (input: Mapping) => unknown[]>;
+}
+
+// Recorded actions of a flow from the action journal, without the partial
+// outputs, which replayed actions do not report
+export function fromHistory(history: FlowHistory): RecordedAction[] {
+  return history.actions.filter(({ partial }) => !partial).map((
+    { concept, action, input, output, sync },
+  ) => ({
+    concept,
+    action,
+    input,
+    ...(output !== undefined ? { output } : {}),
+    ...(sync !== undefined ? { sync } : {}),
+    external: sync === undefined,
+  }));
+}
+
+/**
+ * Replays a recorded flow against the syncs currently registered with
+ * `engine`. Actions are not executed: each one returns the output it was
+ * recorded with, and each query the results given in `queries`, so that the
+ * replay is deterministic. External actions are fed in the recorded order,
+ * and every step of synchronization is reported. The replayed actions are
+ * kept out of the engine's journal.
+ *
+ * @param concepts The instrumented concepts, keyed by concept name
+ */
+export async function replayFlow(
+  engine: SyncConcept,
+  concepts: Record<string, object>,
+  recording: RecordedAction[] | FlowHistory,
+  { queries = {} }: ReplayOptions = {},
+): Promise<ReplayReport> {
+  const recorded = Array.isArray(recording)
+    ? recording
+    : fromHistory(recording);
+  const pool = recorded.map((entry) => ({ entry, used: false }));
+  const steps: ReplayStep[] = [];
+  const unexpected: ReplayReport["unexpected"] = [];
+  const flowId = `replay:${uuid()}`;
+  const journal = new InMemoryActionJournal();
+
+  engine.Action.divert({ flow: flowId, journal });
+  engine.replays.set(flowId, {
+    action(record: ActionRecord) {
+      const concept = conceptName(record.concept);
+      const action = actionName(record.action);
+      const match = pool.find(({ entry, used }) =>
+        !used && entry.concept === concept && entry.action === action &&
+        canonical(entry.input) === canonical(record.input)
+      );
+      if (match === undefined) {
+        unexpected.push({ concept, action, input: record.input });
+      } else {
+        match.used = true;
+      }
+      const output = match?.entry.output ?? {};
+      steps.push({
+        kind: "action",
+        concept,
+        action,
+        input: record.input,
+        output,
+        ...(record.sync !== undefined ? { sync: record.sync } : {}),
+        recorded: match !== undefined,
+      });
+      return output;
+    },
+    query(concept: object, name: string, input: Mapping) {
+      const query = `${conceptName(concept)}.${name}`;
+      const results = queries[query];
+      if (results === undefined) {
+        throw new Error(`Cannot replay query ${query} without its results.`);
+      }
+      return results(input);
+    },
+  });
+  const inReplay = (record: ActionRecord) => record.flow === flowId;
+  const toBindings = (frames: Frames) => frames.map(frameBindings) as Mapping[];
+  const unlisten = engine.listen({
+    matched(sync, record, frames) {
+      if (!inReplay(record)) return;
+      steps.push({ kind: "when", sync: sync.sync, frames: toBindings(frames) });
+    },
+    filtered(sync, record, frames) {
+      if (!inReplay(record)) return;
+      steps.push({
+        kind: "where",
+        sync: sync.sync,
+        frames: toBindings(frames),
+      });
+    },
+    fired(sync, record, action, input) {
+      if (!inReplay(record)) return;
+      steps.push({
+        kind: "then",
+        sync: sync.sync,
+        concept: action.concept ? conceptName(action.concept) : "UNDEFINED",
+        action: actionName(action),
+        input: Object.fromEntries(Object.entries(input)),
+      });
+    },
+  });
+
+  try {
+    for (const item of pool) {
+      // Actions produced by syncs are only replayed if a sync fires them
+      if (item.used || !item.entry.external) continue;
+      const { concept, action, input } = item.entry;
+      const instrumented = (concepts[concept] as Record<string, unknown>)
+        ?.[action];
+      if (typeof instrumented !== "function") {
+        throw new Error(`Cannot replay unknown action ${concept}.${action}.`);
+      }
+      await instrumented(inFlow(flowId, input));
+    }
+  } finally {
+    unlisten();
+    engine.replays.delete(flowId);
+    await engine.Action.flush();
+    engine.Action.release({ flow: flowId });
+  }
+
+  const actions = (await journal.getFlow(flowId))?.actions ?? [];
+  const missing = pool.filter(({ used }) => !used).map(({ entry }) => entry);
+  return { flow: flowId, actions, steps, missing, unexpected };
+}
+
+/**
+ * Renders a replay report as a step-by-step, human-readable listing.
+ */
+export function formatReplay({ steps, missing, unexpected }: ReplayReport) {
+  const lines: string[] = [];
+  for (const step of steps) {
+    switch (step.kind) {
+      case "action":
+        lines.push(
+          `${step.concept}.${step.action} ${inspect(step.input)} => ${
+            inspect(step.output)
+          }${step.recorded ? "" : "  [NOT RECORDED]"}`,
+        );
+        break;
+      case "when":
+        lines.push(
+          `  when ${step.sync}: ${step.frames.length} frame(s) ${
+            inspect(step.frames)
+          }`,
+        );
+        break;
+      case "where":
+        lines.push(
+          `  where ${step.sync}: ${step.frames.length} frame(s) ${
+            inspect(step.frames)
+          }`,
+        );
+        break;
+      case "then":
+        lines.push(
+          `  then ${step.sync}: ${step.concept}.${step.action} ${
+            inspect(step.input)
+          }`,
+        );
+        break;
+    }
+  }
+  for (const { concept, action, input, sync } of missing) {
+    lines.push(
+      `MISSING ${concept}.${action} ${inspect(input)}${
+        sync ? ` (from ${sync})` : ""
+      }`,
+    );
+  }
+  for (const { concept, action, input } of unexpected) {
+    lines.push(`UNEXPECTED ${concept}.${action} ${inspect(input)}`);
+  }
+  return lines.join("\n");
+}
+
+// Stable serialization for comparing recorded and replayed inputs
+function canonical(value: unknown): string {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(canonical).join(",")}]`;
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([k, v]) => `${JSON.stringify(k)}:${canonical(v)}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "undefined";
+}
+
+export interface TraceOptions {
+  // Actions that begin a new flow in the trace, as "Concept.action"
+  roots?: string[];
+}
+
+/**
+ * Parses the console output of `Logging.TRACE` (such as backend-trace.txt)
+ * into recorded flows. The trace does not identify flows, so a new flow is
+ * assumed to begin at each of the `roots` actions.
+ */
+export function parseTrace(
+  text: string,
+  { roots = ["Requesting.request"] }: TraceOptions = {},
+): RecordedAction[][] {
+  const body = text.split("\n")
+    // Strip timestamps prepended by container logs
+    .map((line) => line.replace(/^\d{4}-\d\d-\d\dT[\d:.]+Z ?/, ""))
+    .filter((line) => line.trim() !== "")
+    .join("\n");
+  const flows: RecordedAction[][] = [];
+  const start = /^([A-Z]\w*)\.(\w+) (?=[{])/gm;
+  for (let match; (match = start.exec(body)) !== null;) {
+    const [, concept, action] = match;
+    const parser = new LiteralParser(body, start.lastIndex);
+    let input: unknown, output: unknown;
+    try {
+      input = parser.value();
+      parser.expect("=>");
+      output = parser.value();
+    } catch {
+      // Not an action trace, e.g. some other log line
+      continue;
+    }
+    start.lastIndex = parser.position;
+    const isRoot = roots.includes(`${concept}.${action}`) ||
+      flows.length === 0;
+    if (isRoot) flows.push([]);
+    flows[flows.length - 1].push({
+      concept,
+      action,
+      input: input as Mapping,
+      output: output as Mapping,
+      external: isRoot,
+    });
+  }
+  return flows;
+}
+
+/**
+ * Reads the object literals printed by `util.inspect`.
+ */
+class LiteralParser {
+  constructor(private text: string, public position: number) {}
+
+  expect(token: string) {
+    this.skip();
+    if (!this.text.startsWith(token, this.position)) {
+      throw new Error(`Expected ${token} at ${this.position}`);
+    }
+    this.position += token.length;
+  }
+
+  value(): unknown {
+    this.skip();
+    const char = this.text[this.position];
+    if (char === "{") return this.object();
+    if (char === "[") return this.array();
+    if (char === "'" || char === '"' || char === "`") return this.string();
+    const word = this.text.slice(this.position)
+      .match(/^(new ObjectId|ObjectId)\('([^']*)'\)|^[^\s,}\]]+/);
+    if (word === null) throw new Error(`Unexpected input at ${this.position}`);
+    this.position += word[0].length;
+    if (word[2] !== undefined) return word[2];
+    const literal = word[0];
+    if (literal === "true") return true;
+    if (literal === "false") return false;
+    if (literal === "null") return null;
+    if (literal === "undefined") return undefined;
+    if (/^-?\d+(\.\d+)?(e[+-]?\d+)?$/.test(literal)) return Number(literal);
+    if (/^\d{4}-\d\d-\d\dT/.test(literal)) return new Date(literal);
+    return literal;
+  }
+
+  private object() {
+    this.expect("{");
+    const object: Mapping = {};
+    while (!this.peek("}")) {
+      this.skip();
+      const key = this.peek("'") || this.peek('"')
+        ? this.string()
+        : this.word();
+      this.expect(":");
+      object[key] = this.value();
+      if (!this.peek("}")) this.expect(",");
+    }
+    this.expect("}");
+    return object;
+  }
+
+  private array() {
+    this.expect("[");
+    // Nested values beyond the inspection depth, e.g. [Object]
+    const elided = this.text.slice(this.position).match(/^(\w+)(: [^\]]*)?\]/);
+    if (elided !== null) {
+      this.position += elided[0].length;
+      return `[${elided[1]}]`;
+    }
+    const array: unknown[] = [];
+    while (!this.peek("]")) {
+      if (this.peek("...")) {
+        // Truncated arrays, e.g. "... 3 more items"
+        this.position = this.text.indexOf("]", this.position);
+        break;
+      }
+      array.push(this.value());
+      if (!this.peek("]")) this.expect(",");
+    }
+    this.expect("]");
+    return array;
+  }
+
+  private string() {
+    const quote = this.text[this.position];
+    let result = "";
+    for (let i = this.position + 1; i < this.text.length; i++) {
+      const char = this.text[i];
+      if (char === "\\") {
+        const next = this.text[++i];
+        result += next === "n" ? "\n" : next === "t" ? "\t" : next;
+      } else if (char === quote) {
+        this.position = i + 1;
+        return result;
+      } else {
+        result += char;
+      }
+    }
+    throw new Error("Unterminated string");
+  }
+
+  private word() {
+    const match = this.text.slice(this.position).match(/^[\w$]+/);
+    if (match === null) throw new Error(`Expected key at ${this.position}`);
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private peek(token: string) {
+    this.skip();
+    return this.text.startsWith(token, this.position);
+  }
+
+  private skip() {
+    while (/\s/.test(this.text[this.position] ?? "")) this.position++;
+  }
+}
@@ -0,0 +1,206 @@
+import { isPlainObject } from "./matchers.ts";
+import { Mapping } from "./types.ts";
+
+/**
+ * A field of a request that does not fit its schema. Nested fields are
+ * named by their path, e.g. `participants[1]`.
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * A schema for a value sent to the server, of type `T` once checked.
+ * Returns the errors of `value` and its nested fields, named from `field`.
+ */
+export class Schema<T> {
+  // Only carries the checked type, for SchemaShape to compare
+  declare readonly type?: T;
+
+  constructor(
+    public readonly description: string,
+    public readonly check: (value: unknown, field?: string) => FieldError[],
+    public readonly optional = false,
+  ) {}
+
+  toString() {
+    return this.description;
+  }
+}
+
+// The JSON type a field of type `T` is sent as
+type Sent<T> = T extends string ? string
+  : T extends number ? number
+  : T extends boolean ? boolean
+  : T extends Date ? string
+  : T extends readonly (infer U)[] ? Sent<U>[]
+  : T extends object ? Mapping
+  : T;
+
+/**
+ * The schemas of the fields of `T`, such as the parameters of a concept
+ * action: one for every field, optional only where the field is.
+ */
+export type SchemaShape<T> = {
+  [K in keyof T]-?: undefined extends T[K]
+    ? Schema<Sent<Exclude<T[K], undefined>> | undefined>
+    : Schema<Sent<T[K]>>;
+};
+
+type Shape = Record<string, Schema<unknown>>;
+
+// The type of an object checked by the schemas of `S`
+type Checked<S extends Shape> = {
+  [K in keyof S]: S[K] extends Schema<infer T> ? T : never;
+};
+
+// Names a nested field, with its index for arrays
+function nested(field: string | undefined, key: string | number) {
+  if (typeof key === "number") return `${field ?? ""}[${key}]`;
+  return field ? `${field}.${key}` : key;
+}
+
+function error(field: string | undefined, message: string): FieldError[] {
+  return [{ field: field ?? "", message }];
+}
+
+/**
+ * Builders for the schemas of request fields:
+ *
+ *   schema.object({ conversationId: schema.string({ nonEmpty: true }),
+ *     context: schema.optional(schema.string()) })
+ *
+ * `schema.fields<T>()` builds an object schema whose shape is checked
+ * against the type `T`, such as the parameters of a concept action.
+ */
+export const schema = {
+  string({ nonEmpty = false }: { nonEmpty?: boolean } = {}): Schema<string> {
+    return new Schema(
+      nonEmpty ? "non-empty string" : "string",
+      (value, field) => {
+        if (typeof value !== "string") return error(field, "must be a string");
+        if (nonEmpty && value.trim() === "") {
+          return error(field, "must not be empty");
+        }
+        return [];
+      },
+    );
+  },
+
+  number(
+    { min, max, integer = false }: {
+      min?: number;
+      max?: number;
+      integer?: boolean;
+    } = {},
+  ): Schema<number> {
+    return new Schema(integer ? "integer" : "number", (value, field) => {
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return error(field, "must be a number");
+      }
+      if (integer && !Number.isInteger(value)) {
+        return error(field, "must be an integer");
+      }
+      if (min !== undefined && value < min) {
+        return error(field, `must be at least ${min}`);
+      }
+      if (max !== undefined && value > max) {
+        return error(field, `must be at most ${max}`);
+      }
+      return [];
+    });
+  },
+
+  boolean(): Schema<boolean> {
+    return new Schema(
+      "boolean",
+      (value, field) =>
+        typeof value === "boolean" ? [] : error(field, "must be a boolean"),
+    );
+  },
+
+  // One of the given literal values
+  literal<const T extends string | number | boolean>(
+    ...values: T[]
+  ): Schema<T> {
+    const description = values.map((value) => JSON.stringify(value))
+      .join(" | ");
+    return new Schema(
+      description,
+      (value, field) =>
+        values.includes(value as T)
+          ? []
+          : error(field, `must be one of ${values.join(", ")}`),
+    );
+  },
+
+  array<T>(
+    item: Schema<T>,
+    { nonEmpty = false }: { nonEmpty?: boolean } = {},
+  ): Schema<T[]> {
+    return new Schema(`${item}[]`, (value, field) => {
+      if (!Array.isArray(value)) return error(field, "must be an array");
+      if (nonEmpty && value.length === 0) {
+        return error(field, "must not be empty");
+      }
+      return value.flatMap((element, i) =>
+        item.check(element, nested(field, i))
+      );
+    });
+  },
+
+  // Checks the given fields, and leaves any others alone
+  object<S extends Shape>(shape: S): Schema<Checked<S>> {
+    const description = `{ ${
+      Object.entries(shape).map(([key, field]) =>
+        `${key}${field.optional ? "?" : ""}: ${field}`
+      ).join(", ")
+    } }`;
+    return new Schema(description, (value, field) => {
+      if (!isPlainObject(value)) return error(field, "must be an object");
+      return Object.entries(shape).flatMap(([key, fieldSchema]) => {
+        const name = nested(field, key);
+        if (value[key] === undefined) {
+          return fieldSchema.optional ? [] : error(name, "is required");
+        }
+        return fieldSchema.check(value[key], name);
+      });
+    });
+  },
+
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return new Schema(
+      inner.description,
+      (value, field) => value === undefined ? [] : inner.check(value, field),
+      true,
+    );
+  },
+
+  /**
+   * An object schema for the fields of `T`, which fails to compile unless
+   * the shape has a schema of the right type for each of them.
+   */
+  fields<T>() {
+    return (shape: SchemaShape<T>) =>
+      schema.object(shape as unknown as Shape) as Schema<
+        { [K in keyof T]: Sent<T[K]> }
+      >;
+  },
+};
+
+/**
+ * Schemas of the input of requests, by the path they are requested at.
+ */
+export type RequestSchemas = Record<string, Schema<unknown>>;
+
+/**
+ * Checks the input of a request against the schema of its path, if any.
+ * Returns the errors of its fields, none if it fits.
+ */
+export function validateRequest(
+  schemas: RequestSchemas,
+  input: Mapping & { path: string },
+): FieldError[] {
+  return schemas[input.path]?.check(input) ?? [];
+}
@@ -4,29 +4,88 @@
   Licensed under the Creative Commons Attribution-NonCommercial-ShareAlike 4.0 International.
   See https://creativecommons.org/licenses/by-nc-sa/4.0/
 */
-import { $vars } from "./vars.ts";
-import { inspect, uuid } from "./util.ts";
-import { ActionConcept, ActionRecord } from "./actions.ts";
-import { Frames } from "./frames.ts";
+import { $vars, caught } from "./vars.ts";
+import { AsyncLocalStorage, inspect, isDeepStrictEqual, uuid } from "./util.ts";
 import {
+  ActionConcept,
+  actionName,
+  ActionRecord,
+  conceptName,
+} from "./actions.ts";
+import { FlowConcept } from "./flow.ts";
+import { cachedQuery, Frames } from "./frames.ts";
+import { bind, matchFields } from "./matchers.ts";
+import {
+  formatIssues,
+  SyncIssue,
+  SyncValidationError,
+  validateOrdering,
+  validateRequests,
+  validateSync,
+  ValidationOptions,
+} from "./validate.ts";
+import type { FlowTransactions } from "./transactions.ts";
+import {
+  AbsentActionList,
   ActionList,
   ActionPattern,
+  ActionSelector,
+  FlowLimitReason,
+  FlowLimits,
   Frame,
   InstrumentedAction,
+  Mapping,
   SyncFunctionMap,
   Synchronization,
+  SyncListener,
 } from "./types.ts";
 
 // Unique symbols to associate with frames
 const flow = Symbol("flow");
 const synced = Symbol("synced");
 const actionId = Symbol("actionId");
+const cause = Symbol("cause");
+// Retrieves the concept behind an instrumented proxy
+const conceptTarget = Symbol("conceptTarget");
+// Stands in for the concept of patterns matching any concept
+const anyConcept = {};
+
+// Error output of actions that throw, which may reach clients, unlike the
+// exception itself, which is logged instead
+const ACTION_FAILED = "An internal error occurred.";
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function rawConcept(concept: object): object {
+  return (concept as Record<symbol, object>)[conceptTarget] ?? concept;
+}
+
+// The flow being synchronized, visible to queries run from `where` clauses
+const flowContext = new AsyncLocalStorage<string>();
+// Reports partial outputs of the action being run
+const partialContext = new AsyncLocalStorage<
+  (output: Mapping) => Promise<void>
+>();
+
+/**
+ * Reports a partial output of the action being run, such as a chunk of a
+ * streamed reply, for syncs to match before the action returns. Patterns
+ * match it as they would an output, unless they name no output fields.
+ * Outside of the engine, does nothing.
+ */
+export async function partial(output: Mapping) {
+  await partialContext.getStore()?.(output);
+}
 
 // Helper function to format action patterns
 export function actions(
-  ...actions: ActionList[]
+  ...actions: (ActionList | AbsentActionList)[]
 ): ActionPattern[] {
-  return actions.map(([action, input, output]) => {
+  return actions.map((list) => {
+    const isAbsent = !Array.isArray(list);
+    const [action, input, output] = isAbsent ? list.absent : list;
     const concept = action.concept;
     if (concept === undefined) {
       throw new Error(`Action ${action.name} is not instrumented.`);
@@ -37,12 +96,134 @@ export function actions(
       input,
       flow,
       ...(output ? { output } : {}),
+      ...(isAbsent ? { absent: true } : {}),
+      ...(action.selector ? { selector: action.selector } : {}),
     };
   });
 }
 
 type ActionArguments = Record<string | symbol, unknown>;
 
+// Sync that fired an action, the `when` actions it matched, and for syncs
+// declared `global`, the flow of those actions
+interface Cause {
+  sync: string;
+  actions: (string | undefined)[];
+  origin?: string;
+}
+
+interface PendingThen {
+  action: InstrumentedAction;
+  input: ActionArguments;
+  frame: Frame;
+  causedBy: Cause;
+}
+
+// Runs tasks in order, with at most `limit` of them in flight at once
+async function runConcurrently(tasks: (() => Promise<void>)[], limit: number) {
+  let next = 0;
+  const worker = async () => {
+    while (next < tasks.length) await tasks[next++]();
+  };
+  const workers = Math.max(1, Math.min(limit, tasks.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+}
+
+// Orders syncs after those they declare to come after, otherwise by
+// descending priority, then in the order in which they were registered
+function orderSyncs(syncs: Synchronization[]) {
+  const names = new Set(syncs.map(({ sync }) => sync));
+  const ordered: Synchronization[] = [];
+  const placed = new Set<string>();
+  let remaining = [...syncs].sort((a, b) =>
+    (b.priority ?? 0) - (a.priority ?? 0)
+  );
+  while (remaining.length > 0) {
+    const ready = remaining.find(({ after = [] }) =>
+      after.every((name) => placed.has(name) || !names.has(name))
+    );
+    // Syncs that come after each other keep their registration order
+    const next = ready ?? remaining[0];
+    ordered.push(next);
+    placed.add(next.sync);
+    remaining = remaining.filter((sync) => sync !== next);
+  }
+  return ordered;
+}
+
+interface FlowViolation {
+  flow: string;
+  sync: string;
+  causes: string[];
+  reason: FlowLimitReason;
+  error: string;
+}
+
+/**
+ * Marks a `when` pattern as requiring that no matching action has occurred
+ * in the flow. Absent patterns bind no variables: those not bound by other
+ * patterns match any value.
+ */
+export function absent(list: ActionList): AbsentActionList {
+  return { absent: list };
+}
+
+/**
+ * Stands in for the action of a `when` pattern to match any action, either
+ * of any concept or of the given instrumented concept. The names of the
+ * concept and action matched can be bound to variables.
+ *
+ * e.g. `anyAction({ concept: GroupConversation, action })`, or
+ * `anyAction({ concept, action })`
+ */
+export function anyAction(
+  { concept, action }: { concept?: object | symbol; action?: symbol } = {},
+): InstrumentedAction {
+  const selector: ActionSelector = {
+    ...(typeof concept === "symbol" ? { conceptVar: concept } : {}),
+    ...(typeof concept === "object" ? { concept: rawConcept(concept) } : {}),
+    ...(action !== undefined ? { actionVar: action } : {}),
+  };
+  const wildcard: InstrumentedAction = function anyAction() {
+    throw new Error("anyAction can only be used in `when` patterns.");
+  };
+  wildcard.concept = selector.concept ?? anyConcept;
+  wildcard.selector = selector;
+  return wildcard;
+}
+
+// Provide the input for an action so that it is invoked as part of `flowId`
+export function inFlow(flowId: string, input: Mapping): Mapping {
+  return { ...input, [flow]: flowId };
+}
+
+// Named bindings of a frame, omitting those internal to the engine
+export function frameBindings(frame: Frame): Mapping {
+  const bindings: Mapping = {};
+  for (const symbol of Object.getOwnPropertySymbols(frame)) {
+    const name = symbol.description ?? String(symbol);
+    if (symbol === flow || /^action_\d+$/.test(name)) continue;
+    bindings[name] = frame[symbol];
+  }
+  return bindings;
+}
+
+/**
+ * Stands in for the concepts of a flow being replayed: supplies the output
+ * of each action and the results of each query instead of executing them,
+ * so that the replay never reads or changes live concept state.
+ */
+export interface ReplaySource {
+  action(record: ActionRecord): Mapping;
+  query(concept: object, name: string, input: Mapping): unknown[];
+}
+
+const DEFAULT_LIMITS: FlowLimits = {
+  maxDepth: 64,
+  maxActions: 1000,
+  detectCycles: true,
+};
+
 export enum Logging {
   OFF,
   TRACE,
@@ -53,75 +234,263 @@ export class SyncConcept {
   public syncs: Record<string, Synchronization> = {};
   public syncsByAction: Map<InstrumentedAction, Set<Synchronization>> =
     new Map();
+  // Syncs with patterns matching any action of a concept, or of any concept
+  public syncsByConcept: Map<object, Set<Synchronization>> = new Map();
   public Action;
   public logging = Logging.TRACE;
   // deno-lint-ignore ban-types
   public boundActions: Map<Function, InstrumentedAction> = new Map();
+  public listeners: SyncListener[] = [];
+  public replays: Map<string, ReplaySource> = new Map();
+  // Reject invalid syncs instead of warning about them
+  public strict = false;
+  public validation: ValidationOptions = {};
+  public limits: FlowLimits = { ...DEFAULT_LIMITS };
+  // Flows halted by a limit, until they complete
+  public halted: Set<string> = new Set();
+  // Actions in flight at once for syncs declared `concurrent: true`
+  public concurrency = 4;
+  // Results of cached queries by flow, then by concept
+  public queryCache: Map<string, Map<object, Map<string, unknown>>> = new Map();
+  // Stand-ins for the actions and queries of concepts, by concept
+  public fakes: Map<object, object> = new Map();
+  // Runs each flow in a transaction, in which syncs run one at a time
+  public transactions?: FlowTransactions;
+  // Open transactions by flow, and whether to roll them back
+  public transacting: Map<
+    string,
+    { transactions: FlowTransactions; rollback: boolean }
+  > = new Map();
+  // Actions of global syncs to fire in new flows once the flow whose
+  // actions they matched completes, by flow
+  public deferred: Map<string, (() => Promise<void>)[]> = new Map();
+  // Flows started by global syncs, until they complete
+  public spawned: Set<Promise<void>> = new Set();
+  public Flow;
   constructor(actionConcept: ActionConcept = new ActionConcept()) {
     this.Action = actionConcept;
+    this.Flow = this.instrumentConcept(new FlowConcept());
   }
+  /**
+   * Registers syncs after validating each of them. Invalid syncs are
+   * reported as warnings, or rejected with a SyncValidationError in strict
+   * mode. A sync replaces any registered sync of the same name.
+   */
   register(syncs: SyncFunctionMap) {
-    for (const [name, syncFunction] of Object.entries(syncs)) {
-      const syncDeclaration = syncFunction($vars);
-      const sync = { sync: name, ...syncDeclaration };
-      this.syncs[name] = sync;
-      // Index each sync by all actions in the `when`
-      for (const { action } of sync.when) {
-        const mappedSyncs = this.syncsByAction.get(action);
-        if (mappedSyncs === undefined) {
-          this.syncsByAction.set(action, new Set([sync]));
-        } else {
-          mappedSyncs.add(sync);
+    for (const sync of this.declare(syncs)) {
+      this.add(sync);
+    }
+  }
+  /**
+   * Replaces every registered sync by `syncs` at once, as when reloading
+   * them during development. If any of them is rejected, the registered
+   * syncs are left as they were.
+   */
+  replace(syncs: SyncFunctionMap) {
+    const declared = this.declare(syncs);
+    this.unregister(...Object.keys(this.syncs));
+    for (const sync of declared) {
+      this.add(sync);
+    }
+  }
+  /**
+   * Removes the named syncs, which then no longer fire, including in flows
+   * already in progress.
+   */
+  unregister(...names: string[]) {
+    const indexes: Map<unknown, Set<Synchronization>>[] = [
+      this.syncsByAction,
+      this.syncsByConcept,
+    ];
+    for (const name of names) {
+      const sync = this.syncs[name];
+      if (sync === undefined) continue;
+      delete this.syncs[name];
+      for (const index of indexes) {
+        for (const [key, mappedSyncs] of index) {
+          mappedSyncs.delete(sync);
+          if (mappedSyncs.size === 0) index.delete(key);
         }
       }
     }
   }
+  // Declares and checks syncs, throwing before any is registered
+  private declare(syncs: SyncFunctionMap): Synchronization[] {
+    const declared = Object.entries(syncs).map(([name, syncFunction]) => ({
+      sync: name,
+      ...syncFunction($vars),
+    }));
+    this.report(
+      declared.flatMap((sync) => validateSync(sync, this.validation)),
+    );
+    for (const sync of declared) {
+      const name = sync.sync;
+      if (sync.when.every(({ absent }) => absent)) {
+        throw new Error(
+          `Sync ${name} must have at least one \`when\` pattern that is not absent.`,
+        );
+      }
+      const fired = [
+        ...sync.then,
+        ...sync.otherwise ?? [],
+        ...sync.catch ?? [],
+        ...sync.compensate ?? [],
+      ];
+      for (const { selector } of fired) {
+        if (selector !== undefined) {
+          throw new Error(
+            `Sync ${name} uses anyAction outside of its \`when\` clause.`,
+          );
+        }
+      }
+    }
+    return declared;
+  }
+  private add(sync: Synchronization) {
+    this.unregister(sync.sync);
+    this.syncs[sync.sync] = sync;
+    // Index each sync by all actions that can trigger the `when`
+    for (const { action, concept, absent, selector } of sync.when) {
+      if (absent) continue;
+      const [index, key] = selector
+        ? [this.syncsByConcept, concept]
+        : [this.syncsByAction, action];
+      const mappedSyncs = index.get(key);
+      if (mappedSyncs === undefined) {
+        index.set(key, new Set([sync]));
+      } else {
+        mappedSyncs.add(sync);
+      }
+    }
+  }
+  /**
+   * Checks that the syncs named by `after` exist, and that the registered
+   * syncs respond to every request on every branch, as configured by
+   * `validation`. Call once all syncs have been registered.
+   */
+  validate() {
+    const syncs = Object.values(this.syncs);
+    const issues = [
+      ...validateOrdering(syncs),
+      ...validateRequests(syncs, this.validation),
+    ];
+    this.report(issues);
+    return issues;
+  }
+  private report(issues: SyncIssue[]) {
+    if (issues.length === 0) return;
+    const errors = issues.filter(({ severity }) => severity === "error");
+    if (this.strict && errors.length > 0) {
+      throw new SyncValidationError(errors);
+    }
+    console.warn(`Sync validation found issues:\n${formatIssues(issues)}`);
+  }
+  /**
+   * Substitutes `fake` for the actions and queries of `concept` that it
+   * implements, as when testing syncs without the concept's dependencies.
+   * Returns a function that restores the concept.
+   */
+  fake(concept: object, fake: object) {
+    const target = rawConcept(concept);
+    this.fakes.set(target, fake);
+    return () => {
+      if (this.fakes.get(target) === fake) this.fakes.delete(target);
+    };
+  }
+  listen(listener: SyncListener) {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
   async synchronize(record: ActionRecord) {
     if (this.logging === Logging.VERBOSE) {
       const { concept, ...rec } = record;
-      const conceptName = concept.constructor.name;
-      console.log("Synchronizing action:", { concept: conceptName, ...rec });
+      console.log("Synchronizing action:", {
+        concept: conceptName(concept),
+        ...rec,
+      });
     }
     if (this.logging === Logging.TRACE) {
-      const boundAction = (record.action as InstrumentedAction).action;
-      const constructorName = record.concept.constructor.name;
-      let conceptName = constructorName;
-      if (constructorName.endsWith("Concept")) {
-        conceptName = constructorName.slice(0, -"Concept".length);
-      }
-      const boundName = boundAction
-        ? boundAction.name.slice("bound ".length)
-        : "UNDEFINED";
       console.log(
-        `\n${conceptName}.${boundName} ${inspect(record.input)} => ${
-          inspect(record.output)
-        }\n`,
+        `\n${conceptName(record.concept)}.${actionName(record.action)} ${
+          inspect(record.input)
+        } => ${inspect(record.output)}\n`,
       );
     }
-    const syncs = await this.syncsByAction.get(record.action);
-    if (syncs) {
-      for (const sync of syncs) {
-        let [frames, actionSymbols] = await this.matchWhen(
-          record,
-          sync,
-        );
-        if (frames.length > 0) {
-          this.logFrames(
-            `Matched \`sync\`: ${sync.sync} with \`when\`:`,
-            frames,
-          );
-          if (sync.where !== undefined) {
-            const maybeFrames = sync.where(frames);
-            frames = maybeFrames instanceof Promise
-              ? await maybeFrames
-              : maybeFrames;
-            this.logFrames(`After processing \`where\`:`, frames);
-          }
-          await this.addThen(frames, sync, actionSymbols);
-        }
+    const syncs = orderSyncs([
+      ...new Set([
+        ...this.syncsByAction.get(record.action) ?? [],
+        ...this.syncsByConcept.get(record.concept) ?? [],
+        ...this.syncsByConcept.get(anyConcept) ?? [],
+      ]),
+    ]);
+    // A sync waits for the syncs before it, unless both are concurrent, in
+    // different groups, and it does not declare to come after the other.
+    // Operations of a transaction cannot run in parallel, so all syncs wait.
+    const tasks: [Synchronization, Promise<void>][] = [];
+    const sequential = this.transactions !== undefined;
+    // Groups in which a sync has fired for this action
+    const claimed = new Set<string>();
+    for (const sync of syncs) {
+      const preceding = tasks
+        .filter(([other]) =>
+          sequential || !sync.concurrent || !other.concurrent ||
+          (sync.group !== undefined && sync.group === other.group) ||
+          (sync.after ?? []).includes(other.sync)
+        )
+        .map(([, task]) => task);
+      const task = Promise.all(preceding).then(async () => {
+        const { group } = sync;
+        if (group !== undefined && claimed.has(group)) return;
+        const fired = await this.synchronizeSync(record, sync);
+        if (fired && group !== undefined) claimed.add(group);
+      });
+      tasks.push([sync, task]);
+    }
+    await Promise.all(tasks.map(([, task]) => task));
+  }
+  // Fires `sync` for the record, returning whether any action was fired
+  private async synchronizeSync(record: ActionRecord, sync: Synchronization) {
+    const start = performance.now();
+    const [frames, actionSymbols] = await this.matchWhen(record, sync);
+    if (frames.length === 0) return false;
+    try {
+      return await this.fireSync(record, sync, frames, actionSymbols);
+    } finally {
+      const duration = performance.now() - start;
+      for (const listener of this.listeners) {
+        listener.synced?.(sync, record, duration);
       }
     }
   }
+  private async fireSync(
+    record: ActionRecord,
+    sync: Synchronization,
+    frames: Frames,
+    actionSymbols: symbol[],
+  ) {
+    this.logFrames(`Matched \`sync\`: ${sync.sync} with \`when\`:`, frames);
+    for (const listener of this.listeners) {
+      listener.matched?.(sync, record, frames);
+    }
+    const matched = frames;
+    if (sync.where !== undefined) {
+      const maybeFrames = sync.where(frames);
+      frames = maybeFrames instanceof Promise ? await maybeFrames : maybeFrames;
+      this.logFrames(`After processing \`where\`:`, frames);
+      for (const listener of this.listeners) {
+        listener.filtered?.(sync, record, frames);
+      }
+    }
+    // Fall back to `otherwise` when `where` eliminates every frame
+    if (frames.length === 0 && sync.otherwise !== undefined) {
+      await this.addThen(matched, sync, actionSymbols, record, sync.otherwise);
+      return true;
+    }
+    await this.addThen(frames, sync, actionSymbols, record);
+    return frames.length > 0;
+  }
   logFrames(message: string, frames: Frames) {
     if (this.logging === Logging.VERBOSE && frames.length > 0) {
       console.log(message, frames);
@@ -133,19 +502,29 @@ export class SyncConcept {
   ): Promise<[Frames<Frame>, symbol[]]> {
     let frames = new Frames();
     const whens = sync.when;
-    const flowActions = await this.Action._getByFlow(record.flow);
-    if (flowActions === undefined) return [frames, []];
+    // Global syncs match the actions of every flow kept in memory, looked
+    // up by the action or concept of each pattern
+    const flowActions = sync.global
+      ? undefined
+      : await this.Action._getByFlow(record.flow);
+    if (!sync.global && flowActions === undefined) return [frames, []];
+    const candidates = (when: ActionPattern) =>
+      flowActions ?? this.matchable(when);
     let i = 0;
     const actionSymbols: symbol[] = [];
     frames.push({ [flow]: record.flow });
-    for (const when of whens) {
+    // Absent patterns are checked once all other patterns are bound
+    const present = whens.filter(({ absent }) => !absent);
+    const absents = whens.filter(({ absent }) => absent);
+    for (const when of present) {
       const actionSymbol = Symbol(`action_${i}`);
       actionSymbols.push(actionSymbol);
       i++;
       // Find all action record matches for single when
       const newFrames = new Frames();
+      const records = [...candidates(when)];
       for (const frame of frames) {
-        for (const record of flowActions) {
+        for (const record of records) {
           // Skip records that have been synced by current sync
           if (record.synced && record.synced.has(sync.sync)) {
             continue;
@@ -162,14 +541,41 @@ export class SyncConcept {
       }
       frames = newFrames;
     }
+    // Actions of other flows only complete a match with the action at hand
+    if (sync.global) {
+      frames = frames.filter((frame) =>
+        actionSymbols.some((symbol) => frame[symbol] === record.id)
+      );
+    }
+    for (const when of absents) {
+      const absentSymbol = Symbol("absent");
+      const records = [...candidates(when)];
+      frames = frames.filter((frame) =>
+        records.every((record) =>
+          this.matchArguments(record, when, frame, absentSymbol) === undefined
+        )
+      );
+    }
     return [frames, actionSymbols];
   }
+  // Actions of every flow kept in memory that `when` may match
+  private matchable(when: ActionPattern): Iterable<ActionRecord> {
+    const { selector } = when;
+    if (selector === undefined) return this.Action._getByAction(when.action);
+    if (selector.concept !== undefined) {
+      return this.Action._getByConcept(selector.concept);
+    }
+    return this.Action.actions.values();
+  }
   async addThen(
     frames: Frames,
     sync: Synchronization,
     actionSymbols: symbol[],
+    record?: ActionRecord,
+    thenPatterns: ActionPattern[] = sync.then,
   ) {
-    const thens: [InstrumentedAction, ActionArguments][] = [];
+    const thens: PendingThen[] = [];
+    let violation: FlowViolation | undefined;
     for (const frame of frames) {
       // Collect when actions for marking after executing thens
       const whenActions: ActionRecord[] = [];
@@ -187,8 +593,35 @@ export class SyncConcept {
           );
         }
       }
-      for (const then of sync.then) {
-        const matched = this.matchThen(then, frame);
+      const flowId = frame[flow] as string;
+      const causedBy: Cause = {
+        sync: sync.sync,
+        actions: whenActions.map(({ id }) => id),
+        ...(sync.global ? { origin: flowId } : {}),
+      };
+      // Syncs handling a flow error are exempt, so that they can respond
+      const handlesError = whenActions.some(({ action }) =>
+        action === this.Flow.error
+      );
+      // Global syncs fire the actions of each frame in a new flow
+      const target = sync.global ? { ...frame, [flow]: uuid() } : frame;
+      const fired = thenPatterns.map((then) =>
+        [then, this.matchThen(then, target, causedBy)] as const
+      );
+      if (!handlesError) {
+        if (this.halted.has(flowId)) continue;
+        // Counting the actions pending from previous frames, except for
+        // global syncs, whose actions count towards the flows they start
+        violation ??= this.checkLimits(
+          sync,
+          flowId,
+          whenActions,
+          sync.global ? 0 : thens.length + thenPatterns.length,
+          fired.map(([{ action }, input]) => [action, input]),
+        );
+        if (violation !== undefined) continue;
+      }
+      for (const [then, matched] of fired) {
         const id = matched[actionId];
 
         if (id === undefined || typeof id !== "string") {
@@ -196,21 +629,229 @@ export class SyncConcept {
             "Action produced from \`then\` is missing an id.",
           );
         }
-        for (const whenAction of whenActions) {
+        // Firing on a partial output leaves the other actions matched free
+        // to fire the sync again with the next one
+        const marked = whenActions.some((action) => action.partial)
+          ? whenActions.filter((action) => action.partial)
+          : whenActions;
+        for (const whenAction of marked) {
           whenAction.synced?.set(sync.sync, id);
         }
-        thens.push([then.action, matched]);
+        thens.push({
+          action: then.action,
+          input: matched,
+          frame: target,
+          causedBy,
+        });
+      }
+    }
+    // Await all actions, abandoning the rest of a frame once one throws
+    const completed = new Set<Frame>();
+    const failed = new Set<Frame>();
+    const limit = this.transactions !== undefined
+      ? 1
+      : sync.concurrent === true
+      ? this.concurrency
+      : sync.concurrent || 1;
+    const fire = () =>
+      runConcurrently(
+        thens.map(
+          ({ action: thenAction, input: thenRecord, frame, causedBy }) =>
+          async () => {
+            if (failed.has(frame)) return;
+            if (this.logging === Logging.VERBOSE) {
+              console.log(`${sync.sync}: THEN ${thenAction}`, thenRecord);
+            }
+            if (record !== undefined) {
+              for (const listener of this.listeners) {
+                listener.fired?.(sync, record, thenAction, thenRecord);
+              }
+            }
+            try {
+              await thenAction(thenRecord);
+              completed.add(frame);
+            } catch (error) {
+              // Concurrent actions of the frame may fail after it was abandoned
+              if (failed.has(frame)) {
+                console.error(`Action fired by ${sync.sync} threw:`, error);
+                return;
+              }
+              failed.add(frame);
+              await this.recover(
+                sync,
+                frame,
+                causedBy,
+                error,
+                completed.has(frame),
+              );
+            }
+          },
+        ),
+        limit,
+      );
+    if (sync.global) {
+      // New flows start once this one completes, after it is committed, and
+      // are not started from a replayed flow
+      const flowId = frames[0]?.[flow] as string;
+      if (thens.length > 0 && !this.replays.has(flowId)) {
+        this.deferred.set(flowId, [...this.deferred.get(flowId) ?? [], fire]);
       }
+    } else {
+      await fire();
     }
-    // Await all actions
-    for (const [thenAction, thenRecord] of thens) {
-      if (this.logging === Logging.VERBOSE) {
-        console.log(`${sync.sync}: THEN ${thenAction}`, thenRecord);
+    if (violation !== undefined) await this.halt(violation);
+  }
+  /**
+   * Starts the flows deferred by global syncs until `flowId` completed,
+   * unless its transaction was rolled back.
+   */
+  private startDeferred(flowId: string, rolledBack: boolean) {
+    const starts = this.deferred.get(flowId);
+    if (starts === undefined) return;
+    this.deferred.delete(flowId);
+    if (rolledBack) return;
+    for (const start of starts) {
+      const started: Promise<void> = start()
+        .catch((error) =>
+          console.error(`A flow started from ${flowId} failed:`, error)
+        )
+        .finally(() => this.spawned.delete(started));
+      this.spawned.add(started);
+    }
+  }
+  /**
+   * Resolves once the flows started by global syncs have completed, along
+   * with any flows they started in turn.
+   */
+  async drain() {
+    while (this.spawned.size > 0) await Promise.all(this.spawned);
+  }
+  /**
+   * Handles an exception thrown by a `then` action, whose error output has
+   * already been synchronized. Fires `compensate` if earlier `then` actions
+   * of the frame completed, then `catch`, with the message bound to
+   * `caught`.
+   */
+  private async recover(
+    sync: Synchronization,
+    frame: Frame,
+    causedBy: Cause,
+    error: unknown,
+    compensate: boolean,
+  ) {
+    const handlers = [
+      ...(compensate ? sync.compensate ?? [] : []),
+      ...sync.catch ?? [],
+    ];
+    const caughtFrame = { ...frame, [caught]: errorMessage(error) };
+    for (const handler of handlers) {
+      try {
+        await handler.action(this.matchThen(handler, caughtFrame, causedBy));
+      } catch (handlerError) {
+        console.error(`Error handler of ${sync.sync} threw:`, handlerError);
       }
-      await thenAction(thenRecord);
     }
   }
-  matchThen(then: ActionPattern, frame: Frame) {
+  /**
+   * Returns the limit that firing `sync` from `whenActions` would exceed,
+   * with the actions and inputs of `fired`.
+   */
+  private checkLimits(
+    sync: Synchronization,
+    flowId: string,
+    whenActions: ActionRecord[],
+    count: number,
+    fired: [InstrumentedAction, Mapping][],
+  ): FlowViolation | undefined {
+    const { maxDepth, maxActions, detectCycles } = this.limits;
+    const violation = (reason: FlowLimitReason, error: string) => ({
+      flow: flowId,
+      sync: sync.sync,
+      causes: whenActions.map(({ id }) => id as string),
+      reason,
+      error,
+    });
+    const { depth, produced } = this.lineage(whenActions);
+    // Recursion that changes its input makes progress, so only a sync
+    // repeating an action it produced, with the same input, is a cycle
+    const repeats = detectCycles &&
+      fired.some(([action, input]) =>
+        produced.some((record) =>
+          record.sync === sync.sync && record.action === action &&
+          isDeepStrictEqual(
+            record.input,
+            Object.fromEntries(Object.entries(input)),
+          )
+        )
+      );
+    if (repeats) {
+      return violation(
+        "cycle",
+        `Sync ${sync.sync} repeated an action it produced, with the same input.`,
+      );
+    }
+    if (depth + 1 > maxDepth) {
+      return violation(
+        "depth",
+        `Flow exceeded the maximum depth of ${maxDepth} at ${sync.sync}.`,
+      );
+    }
+    const actionCount = this.Action._getByFlow(flowId)?.length ?? 0;
+    if (actionCount + count > maxActions) {
+      return violation(
+        "actions",
+        `Flow exceeded the maximum of ${maxActions} actions at ${sync.sync}.`,
+      );
+    }
+  }
+  /**
+   * Depth of the deepest of `records`, counting external actions as 0, and
+   * those of them and their causes that syncs produced.
+   */
+  private lineage(records: ActionRecord[]) {
+    const produced: ActionRecord[] = [];
+    const depths = new Map<string, number>();
+    const visit = (record: ActionRecord): number => {
+      const known = depths.get(record.id as string);
+      if (known !== undefined) return known;
+      let depth = 0;
+      if (record.sync !== undefined) {
+        produced.push(record);
+        const causes = (record.causes ?? [])
+          .map((id) => this.Action._getById(id))
+          .filter((cause) => cause !== undefined);
+        depth = 1 + Math.max(0, ...causes.map(visit));
+      }
+      depths.set(record.id as string, depth);
+      return depth;
+    };
+    const depth = Math.max(0, ...records.map(visit));
+    return { depth, produced };
+  }
+  /**
+   * Stops the syncs of a flow from firing, and records the reason with a
+   * `Flow.error` action that syncs can respond to.
+   */
+  private async halt(
+    { flow: flowId, sync, causes, reason, error }: FlowViolation,
+  ) {
+    if (this.halted.has(flowId)) return;
+    this.halted.add(flowId);
+    console.error(`Halted flow ${flowId}: ${error}`);
+    const input: ActionArguments = {
+      sync,
+      reason,
+      error,
+      [flow]: flowId,
+      [cause]: { sync, actions: causes },
+    };
+    await this.Flow.error(input as Parameters<FlowConcept["error"]>[0]);
+  }
+  matchThen(
+    then: ActionPattern,
+    frame: Frame,
+    causedBy?: Cause,
+  ) {
     const bound = Object.entries(then.input).map(([key, value]) => {
       let matchedValue = value;
       if (typeof value === "symbol") {
@@ -228,6 +869,7 @@ export class SyncConcept {
       ...inputPattern,
       [flow]: frame[flow],
       [actionId]: uuid(),
+      ...(causedBy ? { [cause]: causedBy } : {}),
     };
     return input as ActionArguments;
   }
@@ -237,44 +879,43 @@ export class SyncConcept {
     frame: Frame,
     actionSymbol: symbol,
   ) {
-    let newFrame = { ...frame };
-    // Match concept and action -> TODO: Support variable concept/action
-    if (
+    let newFrame: Frame | undefined = { ...frame };
+    const selector = when.selector;
+    if (selector !== undefined) {
+      if (
+        selector.concept !== undefined && record.concept !== selector.concept
+      ) return;
+      if (selector.conceptVar !== undefined) {
+        newFrame = bind(
+          newFrame,
+          selector.conceptVar,
+          conceptName(record.concept),
+        );
+        if (newFrame === undefined) return;
+      }
+      if (selector.actionVar !== undefined) {
+        newFrame = bind(
+          newFrame,
+          selector.actionVar,
+          actionName(record.action),
+        );
+        if (newFrame === undefined) return;
+      }
+    } else if (
       record.concept !== when.concept ||
       record.action !== when.action
     ) return;
-    for (const [key, value] of Object.entries(when.input)) {
-      const recordValue = record.input[key];
-      if (recordValue === undefined) return;
-      if (typeof value === "symbol") {
-        const bound = frame[value];
-        if (bound === undefined) {
-          newFrame = { ...newFrame, [value]: recordValue };
-        } else {
-          if (bound !== recordValue) return;
-        }
-      } else {
-        if (recordValue !== value) return;
-      }
-    }
-    if (when.output === undefined) {
+    newFrame = matchFields(record.input, when.input, newFrame);
+    if (newFrame === undefined) return;
+    if (when.output === undefined && !when.absent) {
       throw new Error(`When pattern: ${when} is missing output pattern.`);
     }
-    for (const [key, value] of Object.entries(when.output)) {
-      if (record.output === undefined) return;
-      const recordValue = record.output[key];
-      if (recordValue === undefined) return;
-      if (typeof value === "symbol") {
-        const bound = frame[value];
-        if (bound === undefined) {
-          newFrame = { ...newFrame, [value]: recordValue };
-        } else {
-          if (bound !== recordValue) return;
-        }
-      } else {
-        if (recordValue !== value) return;
-      }
-    }
+    // Partial outputs only match patterns that name what they expect, and
+    // actions still running, which may report them, have yet to match
+    if (record.partial && Object.keys(when.output ?? {}).length === 0) return;
+    if (record.output === undefined && !when.absent) return;
+    newFrame = matchFields(record.output ?? {}, when.output ?? {}, newFrame);
+    if (newFrame === undefined) return;
     return { ...newFrame, [actionSymbol]: record.id };
   }
 
@@ -282,8 +923,56 @@ export class SyncConcept {
     const Action = this.Action;
     const synchronize = this.synchronize.bind(this);
     const boundActions = this.boundActions;
+    const replays = this.replays;
+    const halted = this.halted;
+    const queryCache = this.queryCache;
+    const fakes = this.fakes;
+    // The method of the concept's fake named `name`, if any
+    const faked = (name: string) => {
+      const fake = fakes.get(concept) as Record<string, unknown> | undefined;
+      const method = fake?.[name];
+      return typeof method === "function"
+        ? method.bind(fake) as (input: Mapping) => unknown
+        : undefined;
+    };
+    const notify = (event: (listener: SyncListener) => void) => {
+      for (const listener of this.listeners) event(listener);
+    };
+    // Forgets the cached query results of the concept in the flow
+    const invalidate = (flowToken: string) =>
+      queryCache.get(flowToken)?.delete(concept);
+    const transacting = this.transacting;
+    const startDeferred = this.startDeferred.bind(this);
+    // Begins the transaction of a flow with its first action
+    const begin = async (flowToken: string) => {
+      const transactions = this.transactions;
+      if (
+        transactions === undefined || transacting.has(flowToken) ||
+        replays.has(flowToken)
+      ) return;
+      await transactions.begin(flowToken);
+      transacting.set(flowToken, { transactions, rollback: false });
+    };
+    const transaction = <R>(flowToken: string, fn: () => Promise<R>) => {
+      const open = transacting.get(flowToken);
+      return open === undefined ? fn() : open.transactions.run(flowToken, fn);
+    };
+    // Commits the transaction of a completed flow, unless it failed, and
+    // returns whether it was rolled back
+    const end = async (flowToken: string) => {
+      const open = transacting.get(flowToken);
+      if (open === undefined) return false;
+      transacting.delete(flowToken);
+      if (open.rollback || halted.has(flowToken)) {
+        await open.transactions.abort(flowToken);
+        return true;
+      }
+      await open.transactions.commit(flowToken);
+      return false;
+    };
     return new Proxy(concept, {
       get(target, prop, receiver) {
+        if (prop === conceptTarget) return target;
         const value = Reflect.get(target, prop, receiver);
         // Bind queries (starts with "_") without instrumenting
         if (
@@ -291,10 +980,50 @@ export class SyncConcept {
         ) {
           let bound = boundActions.get(value);
           if (bound === undefined) {
-            bound = value.bind(concept);
-            if (bound === undefined) {
+            const query = value.bind(concept);
+            if (query === undefined) {
               throw new Error(`Action ${value} not found.`);
             }
+            const name = value.name;
+            // Queries answer from the replay source when replaying a flow
+            const run = function (input: Mapping) {
+              const flowToken = flowContext.getStore();
+              const replay = flowToken ? replays.get(flowToken) : undefined;
+              if (replay !== undefined) {
+                return replay.query(concept, name, input);
+              }
+              return (faked(name) ?? query)(input);
+            };
+            // Shares results with the same query and input in the flow
+            const cached = function (input: Mapping) {
+              const flowToken = flowContext.getStore();
+              if (flowToken === undefined) return run(input);
+              let flowCache = queryCache.get(flowToken);
+              if (flowCache === undefined) {
+                flowCache = new Map();
+                queryCache.set(flowToken, flowCache);
+              }
+              let results = flowCache.get(concept);
+              if (results === undefined) {
+                results = new Map();
+                flowCache.set(concept, results);
+              }
+              const key = `${name} ${JSON.stringify(input)}`;
+              if (!results.has(key)) {
+                const result = run(input);
+                results.set(key, result);
+                // Failed queries are retried rather than cached
+                if (result instanceof Promise) {
+                  const entries = results;
+                  result.catch(() => {
+                    if (entries.get(key) === result) entries.delete(key);
+                  });
+                }
+              }
+              return results.get(key);
+            };
+            bound = Object.assign(run, { [cachedQuery]: cached });
+            Object.defineProperty(bound, "name", { value: `bound ${name}` });
             boundActions.set(value, bound);
           }
           return bound;
@@ -316,6 +1045,7 @@ export class SyncConcept {
                 [flow]: flowToken,
                 [synced]: syncedMap,
                 [actionId]: id,
+                [cause]: causedBy,
                 ...input
               } = args;
               if (flowToken === undefined) {
@@ -334,20 +1064,105 @@ export class SyncConcept {
               if (typeof id !== "string") {
                 throw new Error("actionId not string.");
               }
-              const actionRecord = {
+              const { sync, actions: causes, origin } = (causedBy ?? {}) as {
+                sync?: string;
+                actions?: string[];
+                origin?: string;
+              };
+              const actionRecord: ActionRecord = {
                 id,
                 action: instrumented,
                 concept,
                 input,
                 synced: syncedMap,
                 flow: flowToken,
+                ...(sync !== undefined ? { sync, causes } : {}),
+                ...(origin !== undefined ? { origin } : {}),
+              };
+
+              // Synchronizes a partial output as an action of its own
+              const report = async (output: Mapping) => {
+                const partialRecord: ActionRecord = {
+                  ...actionRecord,
+                  id: uuid(),
+                  synced: new Map(),
+                  partial: true,
+                };
+                const partialId = partialRecord.id as string;
+                Action.invoke(partialRecord);
+                try {
+                  Action.invoked({ id: partialId, output });
+                  await flowContext.run(
+                    flowToken,
+                    () => synchronize({ ...partialRecord, output }),
+                  );
+                } finally {
+                  Action.settled({ id: partialId });
+                }
               };
 
               Action.invoke(actionRecord);
-              const output = await action(input);
-              Action.invoked({ id, output });
-              await synchronize({ ...actionRecord, output });
-              return output;
+              invalidate(flowToken);
+              try {
+                await begin(flowToken);
+                return await transaction(flowToken, async () => {
+                  const replay = replays.get(flowToken);
+                  let output: Mapping;
+                  let thrown: { error: unknown } | undefined;
+                  const start = performance.now();
+                  try {
+                    const fake = faked(value.name);
+                    output = replay
+                      ? replay.action(actionRecord)
+                      : await partialContext.run(
+                        report,
+                        () => (fake ?? action)(input),
+                      ) as Mapping;
+                  } catch (error) {
+                    // Record the exception as an error output for syncs to
+                    // match, without its details, which only the log gets
+                    thrown = { error };
+                    output = { error: ACTION_FAILED };
+                    console.error(
+                      `${conceptName(concept)}.${value.name} threw:`,
+                      error,
+                    );
+                    // Even if a sync catches it, the flow's writes are undone
+                    const open = transacting.get(flowToken);
+                    if (open !== undefined) open.rollback = true;
+                  }
+                  Action.invoked({ id, output });
+                  const duration = performance.now() - start;
+                  notify((listener) =>
+                    listener.performed?.({ ...actionRecord, output }, duration)
+                  );
+                  // Queries run while the action did may have cached old state
+                  invalidate(flowToken);
+                  await flowContext.run(
+                    flowToken,
+                    () => synchronize({ ...actionRecord, output }),
+                  );
+                  if (thrown !== undefined) throw thrown.error;
+                  return output;
+                });
+              } finally {
+                const { completed, duration } = Action.settled({ id });
+                if (completed) {
+                  const flowId = flowToken;
+                  queryCache.delete(flowId);
+                  let rolledBack = true;
+                  try {
+                    // A failed commit fails the action that began the flow
+                    rolledBack = await end(flowId);
+                  } finally {
+                    halted.delete(flowId);
+                    notify((listener) =>
+                      listener.completed?.(flowId, duration, rolledBack)
+                    );
+                    startDeferred(flowId, rolledBack);
+                  }
+                }
+              }
             };
             instrumented.concept = concept;
             instrumented.action = action;
@@ -0,0 +1,81 @@
+import { actions, Frames, Vars } from "../mod.ts";
+import { assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, ListConcept, RecorderConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    List: new ListConcept(),
+    Recorder: new RecorderConcept(),
+  });
+
+export function registerCacheCases(runner: TestRunner) {
+  runner.test("cached queries run once per flow", async () => {
+    const { Sync, Button, List, Recorder } = setup();
+    // Records the number of items seen by the sync
+    const countItems = (tag: string, cache: boolean) => ({ count }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: async (frames: Frames) => {
+        const items = await frames.query(List._itemsAsync, {}, {}, { cache });
+        return frames.map(($) => ({ ...$, [count]: `${tag}${items.length}` }));
+      },
+      then: actions([Recorder.record, { tag: count }]),
+    });
+    Sync.register({
+      First: countItems("a", true),
+      Second: countItems("b", true),
+    });
+
+    List.add({ value: 1 });
+    await Button.clicked({ kind: "go" });
+    assertEqual(List.reads, 1);
+    assertEqual(Recorder.order.join(","), "a1,b1");
+    // Each flow starts with an empty cache
+    await Button.clicked({ kind: "go" });
+    assertEqual(List.reads, 2);
+    assertEqual(Sync.queryCache.size, 0);
+  });
+
+  runner.test("queries are not cached unless asked", async () => {
+    const { Sync, Button, List } = setup();
+    const query = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) => frames.queryAsync(List._itemsAsync, {}, {}),
+      then: actions([List.clear, {}]),
+    });
+    Sync.register({ First: query, Second: query });
+
+    List.add({ value: 1 });
+    await Button.clicked({ kind: "go" });
+    assertEqual(List.reads, 2);
+  });
+
+  runner.test("actions of the concept invalidate cached queries", async () => {
+    const { Sync, Button, List, Recorder } = setup();
+    const AddItem = ({ count }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: async (frames: Frames) => {
+        const items = await frames.queryAsync(List._itemsAsync, {}, {}, {
+          cache: true,
+        });
+        return frames.map(($) => ({ ...$, [count]: items.length + 1 }));
+      },
+      then: actions([List.add, { value: count }]),
+    });
+    const RecordCount = ({ count }: Vars) => ({
+      when: actions([List.add, {}, {}]),
+      where: async (frames: Frames) => {
+        const items = await frames.queryAsync(List._itemsAsync, {}, {}, {
+          cache: true,
+        });
+        return frames.map(($) => ({ ...$, [count]: `${items.length}` }));
+      },
+      then: actions([Recorder.record, { tag: count }]),
+    });
+    Sync.register({ AddItem, RecordCount });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(List.reads, 2);
+    assertEqual(Recorder.order.join(","), "1");
+  });
+}
@@ -0,0 +1,122 @@
+import { actions, validateOrdering, Vars } from "../mod.ts";
+import { assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, SlowConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Slow: new SlowConcept(),
+  });
+
+export function registerConcurrencyCases(runner: TestRunner) {
+  runner.test("then actions run one after another by default", async () => {
+    const { Sync, Button, Slow } = setup();
+    const Wait = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions(
+        [Slow.wait, { tag: "a", ms: 20 }],
+        [Slow.wait, { tag: "b", ms: 5 }],
+      ),
+    });
+    Sync.register({ Wait });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Slow.events.join(","), "start a,end a,start b,end b");
+  });
+
+  runner.test("concurrent syncs run then actions at once", async () => {
+    const { Sync, Button, Slow } = setup();
+    const Wait = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions(
+        [Slow.wait, { tag: "a", ms: 20 }],
+        [Slow.wait, { tag: "b", ms: 5 }],
+      ),
+      concurrent: true,
+    });
+    Sync.register({ Wait });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Slow.events.join(","), "start a,start b,end b,end a");
+  });
+
+  runner.test("concurrent syncs respect their cap", async () => {
+    const { Sync, Button, Slow } = setup();
+    const Wait = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions(
+        [Slow.wait, { tag: "a", ms: 5 }],
+        [Slow.wait, { tag: "b", ms: 5 }],
+        [Slow.wait, { tag: "c", ms: 5 }],
+        [Slow.wait, { tag: "d", ms: 5 }],
+      ),
+      concurrent: 2,
+    });
+    Sync.register({ Wait });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Slow.peak, 2);
+    assertEqual(Slow.events.length, 8);
+  });
+
+  runner.test("independent concurrent syncs run alongside each other", async () => {
+    const { Sync, Button, Slow } = setup();
+    const First = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Slow.wait, { tag: "first", ms: 20 }]),
+      concurrent: true,
+    });
+    const Second = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Slow.wait, { tag: "second", ms: 5 }]),
+      concurrent: true,
+    });
+    Sync.register({ First, Second });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(
+      Slow.events.join(","),
+      "start first,start second,end second,end first",
+    );
+  });
+
+  runner.test("after orders syncs matching the same action", async () => {
+    const { Sync, Button, Slow } = setup();
+    const Last = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Slow.wait, { tag: "last", ms: 5 }]),
+      concurrent: true,
+      after: ["First"],
+    });
+    const First = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Slow.wait, { tag: "first", ms: 20 }]),
+      concurrent: true,
+    });
+    Sync.register({ Last, First });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(
+      Slow.events.join(","),
+      "start first,end first,start last,end last",
+    );
+  });
+
+  runner.test("after must name registered syncs without cycles", () => {
+    const { Sync, Button, Slow } = setup();
+    const pattern = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Slow.wait, { tag: "x", ms: 0 }]),
+    });
+    const A = (vars: Vars) => ({ ...pattern(vars), after: ["B"] });
+    const B = (vars: Vars) => ({ ...pattern(vars), after: ["A"] });
+    const C = (vars: Vars) => ({ ...pattern(vars), after: ["Missing"] });
+    Sync.register({ A, B, C });
+
+    const messages = validateOrdering(Object.values(Sync.syncs))
+      .map(({ message }) => message);
+    assertEqual(messages.length, 2);
+    assertEqual(messages[0], "`after` names unknown sync Missing.");
+    assertEqual(messages[1], "`after` forms a cycle: A -> B -> A.");
+  });
+}
@@ -0,0 +1,204 @@
+import { syncsFromDefinitions, SyncValidationError } from "../mod.ts";
+import {
+  assert,
+  assertDeepEqual,
+  assertEqual,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  FlakyConcept,
+  RecorderConcept,
+  RequestConcept,
+  SessionConcept,
+  StreamConcept,
+} from "./mocks.ts";
+
+function setup() {
+  const { Sync, ...concepts } = setupEngine({
+    Button: new ButtonConcept(),
+    Flaky: new FlakyConcept(),
+    Recorder: new RecorderConcept(),
+    Requesting: new RequestConcept(),
+    Sessioning: new SessionConcept(),
+    Stream: new StreamConcept(),
+  });
+  return { Sync, ...concepts, concepts };
+}
+
+const session = {
+  query: "Sessioning._getUser",
+  input: { session: "$session" },
+  output: { user: "$user" },
+};
+
+export function registerDeclarativeCases(runner: TestRunner) {
+  runner.test("defined syncs match, query and fire", async () => {
+    const { Sync, Button, Recorder, concepts } = setup();
+    Sync.register(syncsFromDefinitions({
+      syncs: {
+        RecordValid: {
+          when: [{
+            action: "Button.clicked",
+            input: { kind: { $regex: "^session:(valid)?", as: "$kind" } },
+            output: {},
+          }],
+          where: [{ ...session, input: { session: "valid" } }],
+          then: [{ action: "Recorder.record", input: { tag: "$user" } }],
+        },
+        RecordLiteral: {
+          when: [{
+            action: "Button.clicked",
+            input: { kind: "plain" },
+            output: {},
+          }],
+          then: [{ action: "Recorder.record", input: { tag: "$$plain" } }],
+        },
+      },
+    }, concepts));
+
+    await Button.clicked({ kind: "session:valid" });
+    await Button.clicked({ kind: "plain" });
+    assertEqual(Recorder.order.join(","), "alice,$plain");
+  });
+
+  runner.test("unless steps keep frames the query finds nothing for", async () => {
+    const { Sync, Button, Recorder, concepts } = setup();
+    Sync.register(syncsFromDefinitions({
+      syncs: {
+        RejectInvalid: {
+          when: [{
+            action: "Button.clicked",
+            input: { kind: "$session" },
+            output: {},
+          }],
+          where: [{ ...session, unless: true }],
+          then: [{ action: "Recorder.record", input: { tag: "$session" } }],
+        },
+      },
+    }, concepts));
+
+    await Button.clicked({ kind: "valid" });
+    await Button.clicked({ kind: "expired" });
+    assertEqual(Recorder.order.join(","), "expired");
+  });
+
+  runner.test("endpoints authenticate, fire and respond", async () => {
+    const { Sync, Requesting, concepts } = setup();
+    Sync.register(syncsFromDefinitions(
+      {
+        endpoints: [{
+          path: "/Recorder/record",
+          authenticate: true,
+          action: "Recorder.record",
+          input: { tag: "$user" },
+          respond: [["tag"]],
+        }, {
+          path: "/Flaky/fail",
+          action: "Flaky.fail",
+          input: { reason: "$reason" },
+          respond: [["done"], ["error"]],
+        }],
+      },
+      concepts,
+      { session },
+    ));
+
+    await Requesting.request({ path: "/Recorder/record", session: "valid" });
+    await Requesting.request({ path: "/Recorder/record", session: "expired" });
+    const error = console.error;
+    console.error = () => {};
+    try {
+      await Requesting.request({ path: "/Flaky/fail", reason: "broken" });
+    } finally {
+      console.error = error;
+    }
+    assertDeepEqual(Requesting.responses, [{ tag: "alice" }, {
+      error: "An internal error occurred.",
+    }]);
+  });
+
+  runner.test("endpoints with a method answer only requests of it", async () => {
+    const { Sync, Requesting, concepts } = setup();
+    const syncs = syncsFromDefinitions(
+      {
+        endpoints: [{
+          path: "/Recorder/record",
+          method: "GET",
+          action: "Recorder.record",
+          input: { tag: "$tag" },
+          respond: [["tag"]],
+        }, {
+          path: "/Recorder/record",
+          method: "DELETE",
+          action: "Recorder.record",
+          input: { tag: "deleted" },
+          respond: [["tag"]],
+        }],
+      },
+      concepts,
+    );
+    Sync.register(syncs);
+
+    assert("GET /Recorder/record request" in syncs, "Names syncs by method");
+    await Requesting.request({
+      path: "/Recorder/record",
+      method: "GET",
+      tag: "a",
+    });
+    await Requesting.request({ path: "/Recorder/record", method: "DELETE" });
+    await Requesting.request({ path: "/Recorder/record", method: "PUT" });
+    assertDeepEqual(Requesting.responses, [{ tag: "a" }, { tag: "deleted" }]);
+  });
+
+  runner.test("endpoints stream partial outputs before responding", async () => {
+    const { Sync, Requesting, concepts } = setup();
+    Sync.register(syncsFromDefinitions(
+      {
+        endpoints: [{
+          path: "/Stream/reply",
+          action: "Stream.reply",
+          input: { words: "$words" },
+          respond: [["reply"]],
+          stream: ["chunk"],
+        }],
+      },
+      concepts,
+    ));
+
+    await Requesting.request({ path: "/Stream/reply", words: ["a", "b"] });
+    assertDeepEqual(Requesting.chunks, [{ chunk: "a" }, { chunk: "b" }]);
+    assertDeepEqual(Requesting.responses, [{ reply: "a b" }]);
+  });
+
+  runner.test("definitions naming unknown actions are rejected", () => {
+    const { concepts } = setup();
+    let error: unknown;
+    try {
+      syncsFromDefinitions({
+        syncs: {
+          Broken: {
+            when: [{ action: "Button.pressed", output: {} }],
+            where: [{ query: "Recorder.record" }],
+            then: [{ action: "Recorder._getOrder" }],
+          },
+        },
+        endpoints: [{
+          path: "/x",
+          authenticate: true,
+          action: "Recorder.record",
+        }],
+      }, concepts);
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof SyncValidationError, "Expected a validation error");
+    assertDeepEqual(error.issues.map(({ message }) => message), [
+      "Endpoints authenticate, but no `session` step is configured.",
+      "Unknown action Button.pressed.",
+      "Unknown action Recorder._getOrder.",
+      "Unknown query Recorder.record.",
+    ]);
+  });
+}
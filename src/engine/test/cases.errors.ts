@@ -0,0 +1,110 @@
+import { actions, caught, Vars } from "../mod.ts";
+import {
+  assert,
+  assertEqual,
+  quietly,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  FlakyConcept,
+  NotificationConcept,
+} from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Flaky: new FlakyConcept(),
+    Notification: new NotificationConcept(),
+  });
+
+export function registerErrorCases(runner: TestRunner) {
+  runner.test("thrown exceptions are recorded as error outputs", async () => {
+    const { Sync, Button, Flaky, Notification } = setup();
+    const Attempt = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Flaky.fail, { reason: "boom" }]),
+    });
+    const ReportFailure = ({ error }: Vars) => ({
+      when: actions(
+        [Button.clicked, {}, {}],
+        [Flaky.fail, {}, { error }],
+      ),
+      then: actions([Notification.notify, { message: error }]),
+    });
+    Sync.register({ Attempt, ReportFailure });
+
+    const reported = await quietly(() => Button.clicked({ kind: "go" }));
+    // The details of the exception are logged, but kept from the output
+    assertEqual(Notification.messages.join(","), "An internal error occurred.");
+    const [flow] = Sync.Action.flowIndex.keys();
+    const failed = Sync.Action._getByFlow(flow)?.find(({ action }) =>
+      action === Flaky.fail
+    );
+    assertEqual(failed?.output?.error, "An internal error occurred.");
+    const [[message, error]] = reported;
+    assertEqual(message, "Flaky.fail threw:");
+    assert(error instanceof Error && error.message === "boom", "Logs it");
+  });
+
+  runner.test("external callers still receive the exception", async () => {
+    const { Flaky } = setup();
+    let error: unknown;
+    await quietly(async () => {
+      try {
+        await Flaky.fail({ reason: "direct" });
+      } catch (e) {
+        error = e;
+      }
+    });
+    assert(error instanceof Error, "Expected the exception");
+    assertEqual(error.message, "direct");
+  });
+
+  runner.test("catch fires with the error bound to caught", async () => {
+    const { Sync, Button, Counter, Flaky, Notification } = setup();
+    const Attempt = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      then: actions(
+        [Flaky.fail, { reason: kind }],
+        [Counter.increment, {}],
+      ),
+      catch: actions([Notification.notify, { message: caught }]),
+    });
+    Sync.register({ Attempt });
+
+    await quietly(async () => {
+      await Button.clicked({ kind: "first" });
+      await Button.clicked({ kind: "second" });
+    });
+    assertEqual(Notification.messages.join(","), "first,second");
+    // Actions after the one that threw are abandoned
+    assertEqual(Counter.count, 0);
+  });
+
+  runner.test("compensate undoes completed then actions", async () => {
+    const { Sync, Button, Counter, Flaky, Notification } = setup();
+    const Attempt = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions(
+        [Counter.increment, {}],
+        [Flaky.fail, { reason: "late" }],
+      ),
+      compensate: actions([Counter.decrement, {}]),
+      catch: actions([Notification.notify, { message: caught }]),
+    });
+    const FailEarly = ({}: Vars) => ({
+      when: actions([Button.clicked, { kind: "early" }, {}]),
+      then: actions([Flaky.fail, { reason: "early" }]),
+      compensate: actions([Counter.decrement, {}]),
+    });
+    Sync.register({ Attempt, FailEarly });
+
+    await quietly(() => Button.clicked({ kind: "early" }));
+    assertEqual(Counter.count, 0);
+    assertEqual(Notification.messages.join(","), "late");
+  });
+}
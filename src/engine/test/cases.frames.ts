@@ -0,0 +1,64 @@
+import { collect, count, Frames, sum } from "../mod.ts";
+import { $vars } from "../vars.ts";
+import { assertDeepEqual, assertEqual, TestRunner } from "./helpers.ts";
+
+const { user, partner, name, amount, items, total, spent } = $vars;
+
+function interactions() {
+  return new Frames(
+    { [user]: "alice", [partner]: "bob", [amount]: 2 },
+    { [user]: "alice", [partner]: "carol", [amount]: 3 },
+    { [user]: "dave", [partner]: "bob", [amount]: 5 },
+  );
+}
+
+export function registerFramesCases(runner: TestRunner) {
+  runner.test("groupBy reduces each group to one frame", () => {
+    const grouped = interactions().groupBy([user], {
+      [items]: collect(partner),
+      [total]: count(),
+      [spent]: sum(amount),
+    });
+    assertEqual(grouped.length, 2);
+    assertDeepEqual(grouped[0][items], ["bob", "carol"]);
+    assertEqual(grouped[0][total], 2);
+    assertEqual(grouped[0][spent], 5);
+    assertEqual(grouped[1][user], "dave");
+    assertDeepEqual(grouped[1][items], ["bob"]);
+  });
+
+  runner.test("aggregateFrom keeps frames without children", () => {
+    const users = new Frames({ [user]: "alice" }, { [user]: "erin" });
+    const collected = users.aggregateFrom(interactions(), {
+      [items]: collect({ partner, amount }),
+    });
+    assertDeepEqual(collected[0][items], [
+      { partner: "bob", amount: 2 },
+      { partner: "carol", amount: 3 },
+    ]);
+    assertDeepEqual(collected[1][items], []);
+  });
+
+  runner.test("distinct removes duplicate frames", () => {
+    const partners = interactions().map(($) => ({ [partner]: $[partner] }));
+    assertEqual(new Frames(...partners).distinct().length, 2);
+    assertEqual(interactions().distinct([partner]).length, 2);
+    assertEqual(interactions().distinct([user, partner]).length, 3);
+  });
+
+  runner.test("joinWith combines frames that agree on shared variables", () => {
+    const names = new Frames(
+      { [partner]: "bob", [name]: "Bob" },
+      { [partner]: "carol", [name]: "Carol" },
+    );
+    const joined = interactions().joinWith(names);
+    assertEqual(joined.length, 3);
+    assertEqual(joined.map(($) => $[name]).join(","), "Bob,Carol,Bob");
+
+    const some = new Frames({ [partner]: "carol", [name]: "Carol" });
+    assertEqual(interactions().joinWith(some).length, 1);
+    const left = interactions().joinWith(some, { left: true });
+    assertEqual(left.length, 3);
+    assertEqual(left.map(($) => $[name] ?? "-").join(","), "-,Carol,-");
+  });
+}
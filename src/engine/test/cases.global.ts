@@ -0,0 +1,129 @@
+import { ActionConcept, actions, Vars } from "../mod.ts";
+import {
+  assert,
+  assertEqual,
+  quietly,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+
+const setup = (Action?: ActionConcept) =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+  }, Action);
+
+export function registerGlobalCases(runner: TestRunner) {
+  runner.test("global syncs fire in a new flow once the flow completes", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const events: string[] = [];
+    Sync.listen({
+      performed: ({ flow }) => events.push(`performed ${flow}`),
+      completed: (flow) => events.push(`completed ${flow}`),
+    });
+    Sync.register({
+      Fanout: ({ kind }: Vars) => ({
+        when: actions([Button.clicked, {}, { kind }]),
+        then: actions([Recorder.record, { tag: kind }]),
+        global: true,
+      }),
+    });
+
+    await Button.clicked({ kind: "shared" });
+    const [origin] = Sync.Action.flowIndex.keys();
+    await Sync.drain();
+    assertEqual(Recorder.order.join(","), "shared");
+
+    const flows = [...Sync.Action.flowIndex.keys()];
+    assertEqual(flows.length, 2);
+    const [click] = Sync.Action._getByFlow(origin)!;
+    const [record] = Sync.Action._getByFlow(flows[1])!;
+    assertEqual(record.origin, origin);
+    assertEqual(record.sync, "Fanout");
+    assertEqual(record.causes?.join(","), click.id);
+    assertEqual(
+      events.join(","),
+      [
+        `performed ${origin}`,
+        `completed ${origin}`,
+        `performed ${flows[1]}`,
+        `completed ${flows[1]}`,
+      ].join(","),
+    );
+  });
+
+  runner.test("global syncs match actions across flows", async () => {
+    const { Sync, Button, Notification, Recorder } = setup();
+    Sync.register({
+      Relay: ({ message }: Vars) => ({
+        when: actions(
+          [Notification.notify, {}, { message }],
+          [Button.clicked, { kind: "relay" }, {}],
+        ),
+        then: actions([Recorder.record, { tag: message }]),
+        global: true,
+      }),
+    });
+
+    await Notification.notify({ message: "hello" });
+    await Sync.drain();
+    assertEqual(Recorder.order.length, 0, "Waits for both actions");
+    await Button.clicked({ kind: "relay" });
+    await Sync.drain();
+    assertEqual(Recorder.order.join(","), "hello");
+    // Each pair of actions fires the sync once
+    await Button.clicked({ kind: "relay" });
+    await Sync.drain();
+    assertEqual(Recorder.order.join(","), "hello");
+  });
+
+  runner.test("global syncs do not match flows evicted from memory", async () => {
+    const { Sync, Button, Notification, Recorder } = setup(
+      new ActionConcept({ ttl: 0 }),
+    );
+    Sync.register({
+      Relay: ({ message }: Vars) => ({
+        when: actions(
+          [Notification.notify, {}, { message }],
+          [Button.clicked, { kind: "relay" }, {}],
+        ),
+        then: actions([Recorder.record, { tag: message }]),
+        global: true,
+      }),
+    });
+
+    await Notification.notify({ message: "hello" });
+    await Button.clicked({ kind: "relay" });
+    await Sync.drain();
+    assertEqual(Recorder.order.length, 0);
+    assertEqual(Sync.Action.actions.size, 0);
+  });
+
+  runner.test("global syncs triggering themselves halt as a cycle", async () => {
+    const { Sync, Recorder } = setup();
+    Sync.register({
+      Echo: ({ tag }: Vars) => ({
+        when: actions([Recorder.record, { tag }, {}]),
+        then: actions([Recorder.record, { tag }]),
+        global: true,
+      }),
+    });
+
+    await quietly(async () => {
+      await Recorder.record({ tag: "x" });
+      await Sync.drain();
+    });
+    assertEqual(Recorder.order.join(","), "x,x");
+    const errors = [...Sync.Action.actions.values()].filter(({ action }) =>
+      action === Sync.Flow.error
+    );
+    assertEqual(errors.length, 1);
+    assert(errors[0].input.reason === "cycle", "Halts as a cycle");
+  });
+}
@@ -0,0 +1,89 @@
+import {
+  absent,
+  actions,
+  flowGraph,
+  renderGraph,
+  syncGraph,
+  Vars,
+} from "../mod.ts";
+import { assert, assertDeepEqual, setupEngine, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  NotificationConcept,
+  RecorderConcept,
+  RequestConcept,
+} from "./mocks.ts";
+
+function setup() {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+    Requesting: new RequestConcept(),
+  });
+  const { Sync, Button, Notification, Recorder, Requesting } = engine;
+  Sync.register({
+    Record: ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      then: actions([Recorder.record, { tag: kind }]),
+      catch: actions([Notification.notify, { message: "failed" }]),
+    }),
+    Notify: ({ tag }: Vars) => ({
+      when: actions(
+        [Recorder.record, {}, { tag }],
+        absent([Notification.notify, {}, {}]),
+      ),
+      then: actions([Notification.notify, { message: tag }]),
+    }),
+    Route: ({ request }: Vars) => ({
+      when: actions([Requesting.request, { path: "/click" }, { request }]),
+      then: actions([Button.clicked, { kind: "request" }]),
+    }),
+  });
+  return engine;
+}
+
+export function registerGraphCases(runner: TestRunner) {
+  runner.test("sync graph links matched actions through syncs", () => {
+    const { Sync } = setup();
+    const graph = syncGraph(Sync.syncs, {
+      split: { "Request.request": "path" },
+    });
+    const label = (id: string) =>
+      graph.nodes.find((node) => node.id === id)!.label;
+    const edges = graph.edges.map(({ from, to, label: edge, dashed }) =>
+      `${label(from)} ${dashed ? "..>" : "->"} ${label(to)}${
+        edge ? ` (${edge})` : ""
+      }`
+    );
+    assertDeepEqual(edges, [
+      "Button.clicked -> Record",
+      "Record -> Recorder.record",
+      "Record ..> Notification.notify (catch)",
+      "Recorder.record -> Notify",
+      "Notification.notify ..> Notify (absent)",
+      "Notify -> Notification.notify",
+      "Request.request /click -> Route",
+      "Route -> Button.clicked",
+    ]);
+  });
+
+  runner.test("flow graph shows the causal chain of a flow", async () => {
+    const { Sync, Requesting } = setup();
+    await Requesting.request({ path: "/click" });
+    const flow = [...Sync.Action.flowIndex.keys()].at(-1);
+    assert(flow !== undefined, "Expected a flow");
+    const history = await Sync.Action._getHistory(flow);
+    assert(history !== undefined, "Expected flow history");
+
+    const mermaid = renderGraph(flowGraph(history), "mermaid");
+    assert(mermaid.startsWith("flowchart LR\n"), mermaid);
+    assert(mermaid.includes('a0 -->|"Route"| a1'), mermaid);
+    assert(mermaid.includes('a1 -->|"Record"| a2'), mermaid);
+    assert(mermaid.includes('a2 -->|"Notify"| a3'), mermaid);
+
+    const dot = renderGraph(flowGraph(history), "dot");
+    assert(dot.includes('subgraph "cluster_Recorder" {'), dot);
+    assert(dot.includes('a0 -> a1 [label="Route"];'), dot);
+  });
+}
@@ -0,0 +1,93 @@
+import {
+  actions,
+  assertActions,
+  assertResponse,
+  exists,
+  Frames,
+  SyncAssertionError,
+  SyncHarness,
+  Vars,
+} from "../mod.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { RequestConcept, SessionConcept } from "./mocks.ts";
+
+function setup() {
+  const engine = setupEngine({
+    Requesting: new RequestConcept(),
+    Session: new SessionConcept(),
+  });
+  const { Sync, Requesting, Session } = engine;
+  const harness = new SyncHarness(Sync, {
+    request: Requesting.request,
+    respond: Requesting.respond,
+  });
+  // A module of syncs, as imported
+  const syncs = {
+    Whoami: ({ request, session, user }: Vars) => ({
+      when: actions([
+        Requesting.request,
+        { path: "/whoami", session },
+        { request },
+      ]),
+      where: (frames: Frames) =>
+        frames.query(Session._getUser, { session }, { user }),
+      then: actions([Requesting.respond, { request, user }]),
+    }),
+    Ping: ({ request }: Vars) => ({
+      when: actions([Requesting.request, { path: "/ping" }, { request }]),
+      then: actions([Requesting.respond, { request, pong: true }]),
+    }),
+    GREETING: "not a sync",
+  };
+  return { harness, syncs, ...engine };
+}
+
+function assertThrows(run: () => void, message: string) {
+  let error: unknown;
+  try {
+    run();
+  } catch (e) {
+    error = e;
+  }
+  assert(error instanceof SyncAssertionError, "expected an assertion error");
+  assert((error as Error).message.includes(message), (error as Error).message);
+}
+
+export function registerHarnessCases(runner: TestRunner) {
+  runner.test("harness reports the actions and response of a request", async () => {
+    const { harness, syncs } = setup();
+    harness.use(syncs, ["Whoami"]);
+
+    const result = await harness.request({ path: "/whoami", session: "valid" });
+    assertActions(result, [
+      "Request.request",
+      { action: "Request.respond", input: { user: "alice" }, sync: "Whoami" },
+    ]);
+    assertResponse(result, { user: exists() });
+    assertEqual(result.response?.request, undefined);
+
+    // Syncs left out are not registered
+    const ping = await harness.request({ path: "/ping" });
+    assertEqual(ping.response, undefined);
+    assertThrows(() => assertResponse(ping, {}), "got no response");
+  });
+
+  runner.test("harness fakes concepts until reset", async () => {
+    const { Sync, harness, syncs, Session } = setup();
+    harness.use(syncs);
+    harness.fake(Session, { _getUser: () => [{ user: "bob" }] });
+
+    const faked = await harness.request({ path: "/whoami", session: "any" });
+    assertResponse(faked, { user: "bob" });
+    assertThrows(
+      () => assertActions(faked, ["Request.request"]),
+      "Actions: Request.request, Request.respond",
+    );
+
+    harness.reset();
+    assertEqual(Object.keys(Sync.syncs).length, 0);
+    harness.use(syncs, ["Whoami"]);
+    const real = await harness.request({ path: "/whoami", session: "any" });
+    assertEqual(real.response, undefined);
+  });
+}
@@ -0,0 +1,84 @@
+import { ActionConcept, InMemoryActionJournal } from "../mod.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  ListConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+import { makeSyncs } from "./syncs.ts";
+
+function setup(Action: ActionConcept) {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    List: new ListConcept(),
+    Recorder: new RecorderConcept(),
+  }, Action);
+  const { Sync, Button, Counter, Notification, List, Recorder } = engine;
+  Sync.register(makeSyncs(Button, Counter, Notification, List, Recorder));
+  return engine;
+}
+
+export function registerJournalCases(runner: TestRunner) {
+  runner.test("journal records the history of a completed flow", async () => {
+    const Action = new ActionConcept();
+    const { Button } = setup(Action);
+
+    await Button.clicked({ kind: "inc" });
+    const [flow] = Action.flowIndex.keys();
+    const history = await Action._getHistory(flow);
+    assert(history !== undefined, "Expected flow history");
+    assert(history.completedAt !== undefined, "Expected flow to complete");
+    assertEqual(
+      history.actions.map(({ concept, action }) => `${concept}.${action}`)
+        .join(","),
+      "Button.clicked,Counter.increment",
+    );
+    assertEqual(history.actions[0].output?.kind, "inc");
+  });
+
+  runner.test("finished flows are evicted from memory after ttl", async () => {
+    const Action = new ActionConcept({ ttl: 0 });
+    const { Button, Counter } = setup(Action);
+
+    await Button.clicked({ kind: "inc" });
+    await Button.clicked({ kind: "inc" });
+    assertEqual(Counter.count, 2);
+    assertEqual(Action.flowIndex.size, 0);
+    assertEqual(Action.actions.size, 0);
+  });
+
+  runner.test("expired flows are evicted as new actions come", async () => {
+    const Action = new ActionConcept({ ttl: 10 });
+    const record = (flow: string) => ({
+      action: () => {},
+      concept: {},
+      input: {},
+      flow,
+    });
+    const { id } = Action.invoke(record("finished"));
+    Action.invoked({ id, output: {} });
+    Action.settled({ id });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    // No flow finishes, but the new action still evicts the expired one
+    Action.invoke(record("running"));
+    assertEqual([...Action.flowIndex.keys()].join(","), "running");
+    assertEqual(Action.actions.size, 1);
+  });
+
+  runner.test("history outlives eviction until journal retention", async () => {
+    const journal = new InMemoryActionJournal({ retention: 0 });
+    const Action = new ActionConcept({ journal, ttl: 1000 });
+    const { Button } = setup(Action);
+
+    await Button.clicked({ kind: "inc" });
+    const [flow] = Action.flowIndex.keys();
+    // Matching state is still live, but the journal has already expired it
+    assertEqual(Action._getByFlow(flow)?.length, 2);
+    assertEqual(await Action._getHistory(flow), undefined);
+  });
+}
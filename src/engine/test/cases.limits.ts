@@ -0,0 +1,124 @@
+import { actions, Frames, Vars } from "../mod.ts";
+import {
+  assert,
+  assertEqual,
+  quietly,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+
+function setup() {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  const { Sync, Notification } = engine;
+  // Syncs that report flow errors, as Requesting does with a response
+  const ReportError = ({ error }: Vars) => ({
+    when: actions([Sync.Flow.error, {}, { error }]),
+    then: actions([Notification.notify, { message: error }]),
+  });
+  Sync.register({ ReportError });
+  return engine;
+}
+
+export function registerLimitCases(runner: TestRunner) {
+  runner.test("sync re-triggering itself halts with an error action", async () => {
+    const { Sync, Counter, Notification } = setup();
+    const Forever = ({}: Vars) => ({
+      when: actions([Counter.increment, {}, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    Sync.register({ Forever });
+
+    await quietly(() => Counter.increment({}));
+    assertEqual(Counter.count, 2);
+    assertEqual(Notification.messages.length, 1);
+    assert(Notification.messages[0].includes("Forever"), "Names the sync");
+    const [flow] = Sync.Action.flowIndex.keys();
+    const errors = Sync.Action._getByFlow(flow)?.filter(({ action }) =>
+      action === Sync.Flow.error
+    );
+    assertEqual(errors?.length, 1);
+    assertEqual(errors?.[0].input.reason, "cycle");
+    assertEqual(errors?.[0].sync, "Forever");
+  });
+
+  runner.test("recursion that changes its input is not a cycle", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    const Countdown = ({ tag, next }: Vars) => ({
+      when: actions([Recorder.record, { tag }, {}]),
+      where: (frames: Frames) =>
+        frames
+          .filter(($) => Number($[tag]) > 0)
+          .map(($) => ({ ...$, [next]: String(Number($[tag]) - 1) })),
+      then: actions([Recorder.record, { tag: next }]),
+    });
+    Sync.register({ Countdown });
+
+    await Recorder.record({ tag: "3" });
+    assertEqual(Recorder.order.join(","), "3,2,1,0");
+    assertEqual(Notification.messages.length, 0);
+  });
+
+  runner.test("depth limit stops chains between syncs", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    Sync.limits = { ...Sync.limits, maxDepth: 5, detectCycles: false };
+    const Chain = ({ tag, next }: Vars) => ({
+      when: actions([Recorder.record, { tag }, {}]),
+      where: (frames: Frames) =>
+        frames.map(($) => ({ ...$, [next]: `${$[tag]}+` })),
+      then: actions([Recorder.record, { tag: next }]),
+    });
+    Sync.register({ Chain });
+
+    await quietly(() => Recorder.record({ tag: "x" }));
+    assertEqual(Recorder.order.length, 6);
+    assert(Notification.messages[0].includes("depth"), "Reports depth");
+  });
+
+  runner.test("action limit stops fanout within a flow", async () => {
+    const { Sync, Button, Recorder, Notification } = setup();
+    Sync.limits = { ...Sync.limits, maxActions: 4 };
+    const Fanout = ({ tag }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) =>
+        new Frames(
+          ...["a", "b", "c", "d", "e"].map((t) => ({ ...frames[0], [tag]: t })),
+        ),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({ Fanout });
+
+    await quietly(() => Button.clicked({ kind: "many" }));
+    assertEqual(Recorder.order.join(","), "a,b,c");
+    assert(Notification.messages[0].includes("4 actions"), "Reports count");
+  });
+
+  runner.test("halted flows do not affect later flows", async () => {
+    const { Sync, Button, Counter, Notification } = setup();
+    const Forever = ({}: Vars) => ({
+      when: actions([Counter.increment, {}, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    const Click = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Counter.increment, {}]),
+    });
+    Sync.register({ Forever, Click });
+
+    await quietly(() => Button.clicked({ kind: "first" }));
+    await quietly(() => Button.clicked({ kind: "second" }));
+    assertEqual(Counter.count, 4);
+    assertEqual(Notification.messages.length, 2);
+    assertEqual(Sync.halted.size, 0);
+  });
+}
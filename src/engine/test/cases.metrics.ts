@@ -0,0 +1,83 @@
+import { actions, Frames, SyncMetrics, Vars } from "../mod.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, RecorderConcept, SlowConcept } from "./mocks.ts";
+
+function setup(metrics: SyncMetrics) {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Recorder: new RecorderConcept(),
+    Slow: new SlowConcept(),
+  });
+  engine.Sync.listen(metrics);
+  return engine;
+}
+
+export function registerMetricsCases(runner: TestRunner) {
+  runner.test("metrics count matches, frames and fired actions per sync", async () => {
+    const metrics = new SyncMetrics();
+    const { Sync, Button, Recorder } = setup(metrics);
+    const Fanout = ({ kind, tag }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) =>
+        frames
+          .filter(($) => $[kind] === "many")
+          .flatMap(($) => ["a", "b"].map((t) => ({ ...$, [tag]: t }))),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({ Fanout });
+
+    await Button.clicked({ kind: "many" });
+    await Button.clicked({ kind: "none" });
+    const stats = metrics.syncs.get("Fanout")!;
+    assertEqual(stats.matches, 2);
+    assertEqual(stats.frames, 2);
+    assertEqual(stats.fired, 2);
+    assertEqual(stats.latency.count, 2);
+    assertEqual(metrics.actions.get("Recorder.record")!.latency.count, 2);
+    assertEqual(metrics.flows.count, 2);
+  });
+
+  runner.test("metrics render in the Prometheus text format", async () => {
+    const metrics = new SyncMetrics();
+    const { Sync, Button, Recorder } = setup(metrics);
+    Sync.register({
+      Record: ({}: Vars) => ({
+        when: actions([Button.clicked, {}, {}]),
+        then: actions([Recorder.record, { tag: "x" }]),
+      }),
+    });
+
+    await Button.clicked({ kind: "go" });
+    const text = metrics.toPrometheus();
+    const lines = text.split("\n");
+    assert(lines.includes('sync_then_actions_total{sync="Record"} 1'));
+    assert(lines.includes("# TYPE sync_duration_seconds histogram"));
+    assert(
+      lines.includes(
+        'action_duration_seconds_bucket{action="Button.clicked",le="+Inf"} 1',
+      ),
+    );
+    assert(lines.includes("flow_duration_seconds_count 1"));
+    assert(text.endsWith("flow_slow_total 0\n"));
+  });
+
+  runner.test("flows slower than the threshold are logged", async () => {
+    const logged: string[] = [];
+    const metrics = new SyncMetrics({
+      slowFlow: 5,
+      log: (message) => logged.push(message),
+    });
+    const { Sync, Button, Slow } = setup(metrics);
+    Sync.register({
+      Wait: ({ kind }: Vars) => ({
+        when: actions([Button.clicked, { kind }, {}]),
+        then: actions([Slow.wait, { tag: kind, ms: 20 }]),
+      }),
+    });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(metrics.slowFlows, 1);
+    assertEqual(logged.length, 1);
+    assert(logged[0].includes("slowest: Slow.wait"), logged[0]);
+  });
+}
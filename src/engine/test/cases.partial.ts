@@ -0,0 +1,61 @@
+import { actions, fromHistory, Vars } from "../mod.ts";
+import {
+  assertDeepEqual,
+  assertEqual,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import { RecorderConcept, RequestConcept, StreamConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Recorder: new RecorderConcept(),
+    Requesting: new RequestConcept(),
+    Stream: new StreamConcept(),
+  });
+
+export function registerPartialCases(runner: TestRunner) {
+  runner.test("partial outputs fire syncs before the action returns", async () => {
+    const { Sync, Recorder, Requesting, Stream } = setup();
+    const Reply = ({ request, words }: Vars) => ({
+      when: actions([Requesting.request, { path: "/reply", words }, {
+        request,
+      }]),
+      then: actions([Stream.reply, { words }]),
+    });
+    const Chunk = ({ request, chunk }: Vars) => ({
+      when: actions(
+        [Requesting.request, { path: "/reply" }, { request }],
+        [Stream.reply, {}, { chunk }],
+      ),
+      then: actions([Recorder.record, { tag: chunk }]),
+    });
+    const Respond = ({ request, reply }: Vars) => ({
+      when: actions(
+        [Requesting.request, { path: "/reply" }, { request }],
+        [Stream.reply, {}, { reply }],
+      ),
+      then: actions([Requesting.respond, { request, reply }]),
+    });
+    const Any = ({}: Vars) => ({
+      when: actions([Stream.reply, {}, {}]),
+      then: actions([Recorder.record, { tag: "done" }]),
+    });
+    Sync.register({ Reply, Chunk, Respond, Any });
+
+    await Requesting.request({ path: "/reply", words: ["a", "b", "c"] });
+    assertEqual(Recorder.order.join(","), "a,b,c,done");
+    assertDeepEqual(Requesting.responses, [{ reply: "a b c" }]);
+  });
+
+  runner.test("partial outputs are journaled but not replayed", async () => {
+    const { Sync, Stream } = setup();
+    await Stream.reply({ words: ["x", "y"] });
+    const [flow] = Sync.Action.flowIndex.keys();
+    const history = await Sync.Action._getHistory(flow);
+    assertEqual(history?.actions.filter(({ partial }) => partial).length, 2);
+    assertDeepEqual(fromHistory(history!).map(({ output }) => output), [{
+      reply: "x y",
+    }]);
+  });
+}
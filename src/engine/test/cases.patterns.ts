@@ -0,0 +1,216 @@
+import {
+  absent,
+  actions,
+  anyAction,
+  exists,
+  Frames,
+  oneOf,
+  path,
+  regex,
+  Vars,
+} from "../mod.ts";
+import { assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  InboxConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+  });
+
+export function registerPatternCases(runner: TestRunner) {
+  runner.test("absent pattern matches only if action did not occur", async () => {
+    const { Sync, Button, Counter, Notification } = setup();
+    const IncrementAllowed = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) => frames.filter(($) => $[kind] === "allowed"),
+      then: actions([Counter.increment, {}]),
+    });
+    const NotifyRejected = ({}: Vars) => ({
+      when: actions(
+        [Button.clicked, {}, {}],
+        absent([Counter.increment, {}, {}]),
+      ),
+      then: actions([Notification.notify, { message: "rejected" }]),
+    });
+    Sync.register({ IncrementAllowed, NotifyRejected });
+
+    await Button.clicked({ kind: "allowed" });
+    assertEqual(Counter.count, 1);
+    assertEqual(Notification.messages.length, 0);
+    await Button.clicked({ kind: "denied" });
+    assertEqual(Counter.count, 1);
+    assertEqual(Notification.messages.join(","), "rejected");
+  });
+
+  runner.test("absent pattern respects variables bound by other patterns", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    const Echo = ({ tag }: Vars) => ({
+      when: actions([Recorder.record, { tag }, {}]),
+      where: (frames: Frames) => frames.filter(($) => $[tag] === "ping"),
+      then: actions([Recorder.record, { tag: "pong" }]),
+    });
+    const Unanswered = ({ tag }: Vars) => ({
+      when: actions(
+        [Recorder.record, { tag }, {}],
+        absent([Recorder.record, { tag: "pong" }, {}]),
+      ),
+      then: actions([Notification.notify, { message: tag }]),
+    });
+    Sync.register({ Echo, Unanswered });
+
+    await Recorder.record({ tag: "ping" });
+    await Recorder.record({ tag: "other" });
+    assertEqual(Notification.messages.join(","), "other");
+  });
+
+  runner.test("otherwise fires when where yields no frames", async () => {
+    const { Sync, Button, Counter, Notification } = setup();
+    const IncrementOrDeny = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) => frames.filter(($) => $[kind] === "ok"),
+      then: actions([Counter.increment, {}]),
+      otherwise: actions([Notification.notify, { message: kind }]),
+    });
+    Sync.register({ IncrementOrDeny });
+
+    await Button.clicked({ kind: "ok" });
+    await Button.clicked({ kind: "nope" });
+    assertEqual(Counter.count, 1);
+    assertEqual(Notification.messages.join(","), "nope");
+  });
+
+  runner.test("sync with only absent patterns is rejected", () => {
+    const { Sync, Counter, Notification } = setup();
+    let error: unknown;
+    try {
+      Sync.register({
+        Never: () => ({
+          when: actions(absent([Counter.increment, {}, {}])),
+          then: actions([Notification.notify, { message: "never" }]),
+        }),
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertEqual(error instanceof Error, true);
+  });
+
+  runner.test("path pattern matches wildcards and binds segments", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    const Route = ({ kind }: Vars) => ({
+      when: actions([
+        Recorder.record,
+        { tag: path("/:kind/*", { kind }) },
+        {},
+      ]),
+      then: actions([Notification.notify, { message: kind }]),
+    });
+    const Nested = ({}: Vars) => ({
+      when: actions([Recorder.record, { tag: path("/deep/**") }, {}]),
+      then: actions([Notification.notify, { message: "deep" }]),
+    });
+    Sync.register({ Route, Nested });
+
+    await Recorder.record({ tag: "/user/create" });
+    await Recorder.record({ tag: "/user" });
+    await Recorder.record({ tag: "/user/create/extra" });
+    await Recorder.record({ tag: "/deep/a/b" });
+    assertEqual(Notification.messages.join(","), "user,deep");
+  });
+
+  runner.test("anyAction matches actions of a concept and binds names", async () => {
+    const { Sync, Counter, Notification } = setup();
+    const Audit = ({ action }: Vars) => ({
+      when: actions([anyAction({ concept: Counter, action }), {}, {}]),
+      then: actions([Notification.notify, { message: action }]),
+    });
+    Sync.register({ Audit });
+
+    await Counter.increment({});
+    await Counter.decrement({});
+    assertEqual(Notification.messages.join(","), "increment,decrement");
+  });
+
+  runner.test("anyAction without a concept matches every concept", async () => {
+    const { Sync, Button, Counter, Recorder } = setup();
+    const Trace = ({ concept, action }: Vars) => ({
+      when: actions([anyAction({ concept, action }), {}, {}]),
+      where: (frames: Frames) =>
+        frames.filter(($) => $[concept] !== "Recorder"),
+      then: actions([Recorder.record, { tag: concept }]),
+    });
+    Sync.register({ Trace });
+
+    await Button.clicked({ kind: "a" });
+    await Counter.increment({});
+    assertEqual(Recorder.order.join(","), "Button,Counter");
+  });
+
+  runner.test("anyAction is rejected outside of when", () => {
+    const { Sync, Button } = setup();
+    let error: unknown;
+    try {
+      Sync.register({
+        Wild: () => ({
+          when: actions([Button.clicked, {}, {}]),
+          then: actions([anyAction(), {}]),
+        }),
+      });
+    } catch (e) {
+      error = e;
+    }
+    assertEqual(error instanceof Error, true);
+  });
+
+  runner.test("nested paths and structures bind inner values", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    const Inbox = Sync.instrumentConcept(new InboxConcept());
+    const BySender = ({ sender }: Vars) => ({
+      when: actions([Inbox.receive, {}, { "message.sender": sender }]),
+      then: actions([Notification.notify, { message: sender }]),
+    });
+    const ByBody = ({ body }: Vars) => ({
+      when: actions([Inbox.receive, {}, { message: { body } }]),
+      then: actions([Recorder.record, { tag: body }]),
+    });
+    Sync.register({ BySender, ByBody });
+
+    await Inbox.receive({ message: { sender: "ada", body: "hi" } });
+    assertEqual(Notification.messages.join(","), "ada");
+    assertEqual(Recorder.order.join(","), "hi");
+  });
+
+  runner.test("regex, oneOf and exists matchers filter inline", async () => {
+    const { Sync, Recorder, Notification } = setup();
+    const Mention = ({ tag }: Vars) => ({
+      when: actions([Recorder.record, { tag: regex(/@bot\b/, tag) }, {}]),
+      then: actions([Notification.notify, { message: tag }]),
+    });
+    const Known = ({}: Vars) => ({
+      when: actions([Recorder.record, { tag: oneOf(["a", "b"]) }, {}]),
+      then: actions([Notification.notify, { message: "known" }]),
+    });
+    const Tagged = ({}: Vars) => ({
+      when: actions([Recorder.record, {}, { tag: exists() }]),
+      then: actions([Notification.notify, { message: "tagged" }]),
+    });
+    Sync.register({ Mention, Known, Tagged });
+
+    await Recorder.record({ tag: "hey @bot" });
+    await Recorder.record({ tag: "b" });
+    await Recorder.record({ tag: "@botany" });
+    assertEqual(
+      Notification.messages.join(","),
+      "hey @bot,tagged,known,tagged,tagged",
+    );
+  });
+}
@@ -0,0 +1,68 @@
+import { actions, Frames, Vars } from "../mod.ts";
+import { assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, RecorderConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Recorder: new RecorderConcept(),
+  });
+
+export function registerPriorityCases(runner: TestRunner) {
+  runner.test("syncs of higher priority run first", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const record = (tag: string, priority?: number) => ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag }]),
+      ...(priority !== undefined ? { priority } : {}),
+    });
+    Sync.register({
+      Default: record("default"),
+      Low: record("low", -1),
+      High: record("high", 10),
+    });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "high,default,low");
+  });
+
+  runner.test("only the first sync of a group to fire does", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const Special = ({ kind }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) => frames.filter(($) => $[kind] === "special"),
+      then: actions([Recorder.record, { tag: "special" }]),
+      group: "click",
+      priority: 1,
+    });
+    const Fallback = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag: "fallback" }]),
+      group: "click",
+    });
+    const Always = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag: "always" }]),
+    });
+    Sync.register({ Fallback, Always, Special });
+
+    await Button.clicked({ kind: "special" });
+    assertEqual(Recorder.order.join(","), "special,always");
+    await Button.clicked({ kind: "plain" });
+    assertEqual(Recorder.order.join(","), "special,always,fallback,always");
+  });
+
+  runner.test("concurrent syncs of a group run one at a time", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const record = (tag: string) => ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag }]),
+      concurrent: true,
+      group: "click",
+    });
+    Sync.register({ First: record("first"), Second: record("second") });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "first");
+  });
+}
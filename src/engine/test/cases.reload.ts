@@ -0,0 +1,66 @@
+import { actions, Vars } from "../mod.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, RecorderConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Recorder: new RecorderConcept(),
+  });
+
+export function registerReloadCases(runner: TestRunner) {
+  runner.test("unregistered syncs no longer fire", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const record = (tag: string) => ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({ First: record("first"), Second: record("second") });
+
+    Sync.unregister("First", "Unknown");
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "second");
+    assertEqual(Object.keys(Sync.syncs).join(","), "Second");
+
+    Sync.unregister("Second");
+    assertEqual(Sync.syncsByAction.size, 0);
+  });
+
+  runner.test("registering a sync again replaces it", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const record = (tag: string) => ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({ Click: record("old") });
+    Sync.register({ Click: record("new") });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "new");
+  });
+
+  runner.test("replace swaps every sync, or none when one is invalid", async () => {
+    const { Sync, Button, Recorder } = setup();
+    Sync.strict = true;
+    const record = (tag: string, concurrent?: number) => ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Recorder.record, { tag }]),
+      ...(concurrent !== undefined ? { concurrent } : {}),
+    });
+    Sync.register({ Old: record("old") });
+
+    Sync.replace({ New: record("new") });
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "new");
+
+    let threw = false;
+    try {
+      Sync.replace({ Newer: record("newer"), Broken: record("broken", 0) });
+    } catch {
+      threw = true;
+    }
+    assert(threw, "expected the invalid sync to be rejected");
+    await Button.clicked({ kind: "go" });
+    assertEqual(Recorder.order.join(","), "new,new");
+  });
+}
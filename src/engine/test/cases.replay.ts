@@ -0,0 +1,155 @@
+import { ActionConcept, formatReplay, parseTrace, replayFlow } from "../mod.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  ListConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+import { makeSyncs } from "./syncs.ts";
+
+function setup(
+  select: (syncs: ReturnType<typeof makeSyncs>) => Partial<
+    ReturnType<typeof makeSyncs>
+  > = (syncs) => syncs,
+) {
+  const Action = new ActionConcept();
+  const { Sync, ...concepts } = setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    List: new ListConcept(),
+    Recorder: new RecorderConcept(),
+  }, Action);
+  const { Button, Counter, Notification, List, Recorder } = concepts;
+  const syncs = select(
+    makeSyncs(Button, Counter, Notification, List, Recorder),
+  );
+  Sync.register(syncs as Record<string, never>);
+  return { Sync, Action, concepts };
+}
+
+// Records the last flow started by `run`
+async function recordFlow(
+  run: (concepts: ReturnType<typeof setup>["concepts"]) => unknown,
+) {
+  const { Action, concepts } = setup();
+  await run(concepts);
+  const flow = [...Action.flowIndex.keys()].at(-1);
+  assert(flow !== undefined, "Expected a flow");
+  const history = await Action._getHistory(flow);
+  assert(history !== undefined, "Expected flow history");
+  return history;
+}
+
+export function registerReplayCases(runner: TestRunner) {
+  runner.test("replay reproduces a flow without executing actions", async () => {
+    const history = await recordFlow(({ Recorder }) =>
+      Recorder.record({ tag: "x" })
+    );
+    const { Sync, concepts } = setup();
+
+    const report = await replayFlow(Sync, concepts, history);
+    assertEqual(report.missing.length, 0);
+    assertEqual(report.unexpected.length, 0);
+    assertEqual(concepts.Recorder.order.length, 0);
+    const fired = report.steps
+      .filter((step) => step.kind === "then")
+      .map((step) => step.sync);
+    assertEqual(fired.join(","), "ChainRecordA,PreventDoubleFire");
+    assert(formatReplay(report).includes("then ChainRecordA"));
+  });
+
+  runner.test("replay reports actions no longer produced by syncs", async () => {
+    const history = await recordFlow(({ Recorder }) =>
+      Recorder.record({ tag: "x" })
+    );
+    const { Sync, concepts } = setup(({ PreventDoubleFire: _, ...rest }) =>
+      rest
+    );
+
+    const report = await replayFlow(Sync, concepts, history);
+    assertEqual(report.missing.length, 1);
+    assertEqual(report.missing[0].input.tag, "x:done");
+    assertEqual(report.missing[0].sync, "PreventDoubleFire");
+  });
+
+  runner.test("replay answers queries from provided results", async () => {
+    const history = await recordFlow(async ({ Button, List }) => {
+      List.add({ value: 1 });
+      List.add({ value: 2 });
+      await Button.clicked({ kind: "fanout" });
+    });
+    const { Sync, concepts } = setup();
+
+    const report = await replayFlow(Sync, concepts, history, {
+      queries: { "List._items": () => [{ value: 2 }] },
+    });
+    assertEqual(report.missing.length, 1);
+    assertEqual(report.missing[0].input.tag, "v:1");
+  });
+
+  runner.test("replay fails queries without provided results", async () => {
+    const history = await recordFlow(async ({ Button, List }) => {
+      List.add({ value: 1 });
+      await Button.clicked({ kind: "fanout" });
+    });
+    const { Sync, concepts } = setup();
+    concepts.List.add({ value: 1 });
+
+    let error: unknown;
+    try {
+      await replayFlow(Sync, concepts, history);
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, "Expected the replay to fail");
+    assertEqual(
+      error.message,
+      "Cannot replay query List._items without its results.",
+    );
+    assertEqual(concepts.Recorder.order.length, 0);
+  });
+
+  runner.test("replayed actions are kept out of the journal", async () => {
+    const history = await recordFlow(({ Recorder }) =>
+      Recorder.record({ tag: "x" })
+    );
+    const { Sync, Action, concepts } = setup();
+
+    const report = await replayFlow(Sync, concepts, history);
+    assertEqual(await Action._getHistory(report.flow), undefined);
+    assertEqual(Action._getByFlow(report.flow), undefined);
+    assertEqual(
+      report.actions.map(({ sync }) => sync ?? "").join(","),
+      ",ChainRecordA,PreventDoubleFire",
+    );
+    const [record, chained] = report.actions;
+    assertEqual(chained.causes?.[0], record.id);
+  });
+
+  runner.test("trace output parses into replayable flows", async () => {
+    const trace = `
+2025-11-04T22:31:47.738822688Z Button.clicked { kind: 'inc' } => { kind: 'inc' }
+
+2025-11-04T22:31:47.738830559Z Counter.increment {} => {}
+
+[Requesting] unrelated log line
+Button.clicked {
+  kind: 'fanout'
+} => { kind: 'fanout' }
+`;
+    const flows = parseTrace(trace, { roots: ["Button.clicked"] });
+    assertEqual(flows.length, 2);
+    assertEqual(flows[0].length, 2);
+    assertEqual(flows[1][0].input.kind, "fanout");
+
+    const { Sync, concepts } = setup();
+    const report = await replayFlow(Sync, concepts, flows[0], {
+      queries: { "Counter._getCount": () => [{ count: 1 }] },
+    });
+    assertEqual(report.missing.length, 0);
+    assertEqual(concepts.Counter.count, 0);
+  });
+}
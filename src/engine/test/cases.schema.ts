@@ -0,0 +1,96 @@
+import { schema, validateRequest } from "../mod.ts";
+import { assertDeepEqual, assertEqual, TestRunner } from "./helpers.ts";
+
+type SendParams = { conversationId: string; content: string; tags?: string[] };
+
+const send = schema.object({
+  conversationId: schema.string({ nonEmpty: true }),
+  content: schema.string(),
+  tags: schema.optional(schema.array(schema.string())),
+});
+
+export function registerSchemaCases(runner: TestRunner) {
+  runner.test("schemas report the errors of each field", () => {
+    assertDeepEqual(send.check({ conversationId: "c1", content: "hi" }), []);
+    assertDeepEqual(
+      send.check({ conversationId: " ", tags: ["a", 2], extra: true }),
+      [
+        { field: "conversationId", message: "must not be empty" },
+        { field: "content", message: "is required" },
+        { field: "tags[1]", message: "must be a string" },
+      ],
+    );
+    assertDeepEqual(send.check([]), [
+      { field: "", message: "must be an object" },
+    ]);
+  });
+
+  runner.test("nested schemas name fields by their path", () => {
+    const create = schema.object({
+      pair: schema.object({
+        size: schema.number({ min: 2, integer: true }),
+        kind: schema.literal("couple", "group"),
+      }),
+      notify: schema.boolean(),
+    });
+    assertDeepEqual(
+      create.check({ pair: { size: 1.5, kind: "trio" }, notify: "yes" }),
+      [
+        { field: "pair.size", message: "must be an integer" },
+        { field: "pair.kind", message: "must be one of couple, group" },
+        { field: "notify", message: "must be a boolean" },
+      ],
+    );
+    assertEqual(
+      String(create),
+      '{ pair: { size: integer, kind: "couple" | "group" }, notify: boolean }',
+    );
+  });
+
+  runner.test("requests are checked by the schema of their path", () => {
+    const schemas = { "/Conversation/send": send };
+    assertDeepEqual(
+      validateRequest(schemas, { path: "/Conversation/send", content: 1 }),
+      [
+        { field: "conversationId", message: "is required" },
+        { field: "content", message: "must be a string" },
+      ],
+    );
+    assertDeepEqual(validateRequest(schemas, { path: "/Other/action" }), []);
+  });
+
+  runner.test("field schemas are checked against parameter types", () => {
+    const fields = schema.fields<SendParams>();
+    const schemas = [
+      fields({
+        conversationId: schema.string(),
+        content: schema.string(),
+        tags: schema.optional(schema.array(schema.string())),
+      }),
+      // @ts-expect-error: `content` is missing
+      fields({ conversationId: schema.string(), tags: schema.optional(send) }),
+      fields({
+        conversationId: schema.string(),
+        // @ts-expect-error: `content` is a string
+        content: schema.number(),
+        tags: schema.optional(schema.array(schema.string())),
+      }),
+      fields({
+        conversationId: schema.string(),
+        content: schema.string(),
+        // @ts-expect-error: `tags` is an array
+        tags: schema.optional(schema.string()),
+      }),
+      fields({
+        // @ts-expect-error: `conversationId` is required
+        conversationId: schema.optional(schema.string()),
+        content: schema.string(),
+        tags: schema.optional(schema.array(schema.string())),
+      }),
+    ];
+    assertEqual(schemas.length, 5);
+    assertDeepEqual(schemas[0].check({ conversationId: "c1" }), [
+      { field: "content", message: "is required" },
+    ]);
+  });
+}
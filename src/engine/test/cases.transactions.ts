@@ -0,0 +1,226 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  actions,
+  FlowTransactions,
+  Frames,
+  MongoFlowTransactions,
+  SyncConcept,
+  Vars,
+} from "../mod.ts";
+import {
+  assert,
+  assertDeepEqual,
+  assertEqual,
+  quietly,
+  setupEngine,
+  TestRunner,
+} from "./helpers.ts";
+import {
+  ButtonConcept,
+  FlakyConcept,
+  RecorderConcept,
+  SlowConcept,
+} from "./mocks.ts";
+
+// Records what the engine asks of it, and which flow each action ran in
+class FakeTransactions implements FlowTransactions {
+  public events: string[] = [];
+  public context = new AsyncLocalStorage<string>();
+  public failCommit = false;
+  begin(flow: string) {
+    this.events.push(`begin ${flow}`);
+  }
+  run<T>(flow: string, fn: () => Promise<T>) {
+    return this.context.run(flow, fn);
+  }
+  commit(flow: string) {
+    this.events.push(`commit ${flow}`);
+    if (this.failCommit) throw new Error("Write conflict");
+    return Promise.resolve();
+  }
+  abort(flow: string) {
+    this.events.push(`abort ${flow}`);
+    return Promise.resolve();
+  }
+}
+
+function setup() {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Recorder: new RecorderConcept(),
+    Flaky: new FlakyConcept(),
+    Slow: new SlowConcept(),
+  });
+  const transactions = new FakeTransactions();
+  engine.Sync.transactions = transactions;
+  return { transactions, ...engine };
+}
+
+function lastFlow(Sync: SyncConcept) {
+  return [...Sync.Action.flowIndex.keys()].at(-1)!;
+}
+
+// A MongoDB session whose commits fail with the given error labels, in turn
+function fakeSession(failures: string[][]) {
+  const events: string[] = [];
+  const session = {
+    startTransaction: () => events.push("start"),
+    commitTransaction() {
+      events.push("commit");
+      const labels = failures.shift();
+      if (labels === undefined) return Promise.resolve();
+      const error = Object.assign(new Error("Commit failed"), {
+        hasErrorLabel: (label: string) => labels.includes(label),
+      });
+      return Promise.reject(error);
+    },
+    endSession() {
+      events.push("end");
+      return Promise.resolve();
+    },
+  };
+  const client = {
+    startSession: () => session,
+  } as unknown as ConstructorParameters<
+    typeof MongoFlowTransactions
+  >[0];
+  return { events, transactions: new MongoFlowTransactions(client) };
+}
+
+export function registerTransactionCases(runner: TestRunner) {
+  runner.test("transactions commit once a flow completes", async () => {
+    const { Sync, transactions, Button, Recorder } = setup();
+    const flows: (string | undefined)[] = [];
+    Sync.fake(Recorder, {
+      record({ tag }: { tag: string }) {
+        flows.push(transactions.context.getStore());
+        return { tag };
+      },
+    });
+    Sync.register({
+      Record: ({}: Vars) => ({
+        when: actions([Button.clicked, {}, {}]),
+        then: actions([Recorder.record, { tag: "a" }], [Recorder.record, {
+          tag: "b",
+        }]),
+      }),
+    });
+
+    await Button.clicked({ kind: "go" });
+    const flow = lastFlow(Sync);
+    assertDeepEqual(transactions.events, [`begin ${flow}`, `commit ${flow}`]);
+    assertDeepEqual(flows, [flow, flow]);
+    assertEqual(Sync.transacting.size, 0);
+  });
+
+  runner.test("transactions abort when an action throws", async () => {
+    const { Sync, transactions, Button, Flaky, Recorder } = setup();
+    const Fail = ({}: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      then: actions([Flaky.fail, { reason: "boom" }]),
+    });
+    const Handle = ({ error }: Vars) => ({
+      when: actions([Flaky.fail, {}, { error }]),
+      then: actions([Recorder.record, { tag: error }]),
+    });
+    Sync.register({ Fail, Handle });
+
+    await quietly(() => Button.clicked({ kind: "go" }));
+    const flow = lastFlow(Sync);
+    assertEqual(Recorder.order.join(","), "An internal error occurred.");
+    assertDeepEqual(transactions.events, [`begin ${flow}`, `abort ${flow}`]);
+  });
+
+  runner.test("transactions abort halted flows", async () => {
+    const { Sync, transactions, Button, Recorder } = setup();
+    Sync.limits = { ...Sync.limits, maxActions: 3 };
+    const Fanout = ({ tag }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) =>
+        new Frames(...["a", "b", "c"].map((t) => ({ ...frames[0], [tag]: t }))),
+      then: actions([Recorder.record, { tag }]),
+    });
+    Sync.register({ Fanout });
+
+    await quietly(() => Button.clicked({ kind: "many" }));
+    const flow = lastFlow(Sync);
+    assertDeepEqual(transactions.events, [`begin ${flow}`, `abort ${flow}`]);
+    assertEqual(Sync.halted.size, 0);
+  });
+
+  runner.test("failed commits fail the action that began the flow", async () => {
+    const { Sync, transactions, Button, Recorder } = setup();
+    transactions.failCommit = true;
+    Sync.register({
+      Record: ({}: Vars) => ({
+        when: actions([Button.clicked, {}, {}]),
+        then: actions([Recorder.record, { tag: "a" }]),
+      }),
+    });
+
+    let error: unknown;
+    try {
+      await Button.clicked({ kind: "go" });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, "Throws the commit error");
+    assertEqual((error as Error).message, "Write conflict");
+    assertEqual(Sync.transacting.size, 0);
+  });
+
+  runner.test("completed flows report whether they were rolled back", async () => {
+    const { Sync, Button, Flaky } = setup();
+    const completed: boolean[] = [];
+    Sync.listen({
+      completed: (_flow, _duration, rolledBack) => completed.push(rolledBack),
+    });
+    Sync.register({
+      Fail: ({}: Vars) => ({
+        when: actions([Button.clicked, { kind: "fail" }, {}]),
+        then: actions([Flaky.fail, { reason: "boom" }]),
+      }),
+    });
+
+    await Button.clicked({ kind: "go" });
+    await quietly(() => Button.clicked({ kind: "fail" }));
+    assertDeepEqual(completed, [false, true]);
+  });
+
+  runner.test("commits with an unknown result are retried", async () => {
+    const unknown = fakeSession([
+      ["UnknownTransactionCommitResult"],
+      ["UnknownTransactionCommitResult"],
+    ]);
+    unknown.transactions.begin("f1");
+    await unknown.transactions.commit("f1");
+    assertEqual(unknown.events.join(","), "start,commit,commit,commit,end");
+
+    const transient = fakeSession([["TransientTransactionError"]]);
+    transient.transactions.begin("f2");
+    let error: unknown;
+    try {
+      await transient.transactions.commit("f2");
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof Error, "Fails the commit");
+    assertEqual(transient.events.join(","), "start,commit,end");
+  });
+
+  runner.test("transactions run concurrent syncs one at a time", async () => {
+    const { Sync, Button, Slow } = setup();
+    const Wait = ({ tag }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) =>
+        new Frames(...["a", "b"].map((t) => ({ ...frames[0], [tag]: t }))),
+      then: actions([Slow.wait, { tag, ms: 5 }]),
+      concurrent: true,
+    });
+    Sync.register({ Wait });
+
+    await Button.clicked({ kind: "go" });
+    assertEqual(Slow.peak, 1);
+    assertEqual(Slow.events.join(","), "start a,end a,start b,end b");
+  });
+}
@@ -0,0 +1,62 @@
+import { actions, invoke, on, regex, Vars } from "../mod.ts";
+import { assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import { ButtonConcept, PresenceConcept, RecorderConcept } from "./mocks.ts";
+
+const setup = () =>
+  setupEngine({
+    Button: new ButtonConcept(),
+    Presence: new PresenceConcept(),
+    Recorder: new RecorderConcept(),
+  });
+
+export function registerTypedCases(runner: TestRunner) {
+  runner.test("typed patterns match like action lists", async () => {
+    const { Sync, Button, Recorder } = setup();
+    const RecordClick = ({ kind }: Vars) => ({
+      when: actions(on(Button.clicked, { kind: regex(/^ok/) }, { kind })),
+      then: actions(invoke(Recorder.record, { tag: kind })),
+    });
+    Sync.register({ RecordClick });
+
+    await Button.clicked({ kind: "okay" });
+    await Button.clicked({ kind: "cancel" });
+    assertEqual(Recorder.order.join(","), "okay");
+  });
+
+  runner.test("typed output patterns match any member of a union", async () => {
+    const { Sync, Presence, Recorder } = setup();
+    const RecordConnected = ({ user }: Vars) => ({
+      when: actions(on(Presence.connect, {}, { user })),
+      then: actions(invoke(Recorder.record, { tag: user })),
+    });
+    const RecordRejected = ({ error }: Vars) => ({
+      when: actions(on(Presence.connect, {}, { error })),
+      then: actions(invoke(Recorder.record, { tag: error })),
+    });
+    Sync.register({ RecordConnected, RecordRejected });
+
+    await Presence.connect({ user: "alice" });
+    await Presence.connect({ user: "alice" });
+    assertEqual(Recorder.order.join(","), "alice,alice is already online");
+  });
+
+  runner.test("typed patterns reject mismatched fields at compile time", () => {
+    const { Button, Presence, Recorder } = setup();
+    const { kind, online, tag } = {} as Vars;
+    const lists = [
+      // @ts-expect-error: `clicked` returns no `tag`
+      on(Button.clicked, {}, { tag }),
+      // @ts-expect-error: `clicked` takes no `type`
+      on(Button.clicked, { type: kind }, {}),
+      // @ts-expect-error: `kind` is a string
+      on(Button.clicked, { kind: 1 }, {}),
+      // @ts-expect-error: `isOnline` returns a boolean, not an object
+      on(Presence.isOnline, {}, { online }),
+      // @ts-expect-error: `record` requires a `tag`
+      invoke(Recorder.record, {}),
+      // @ts-expect-error: `record` takes no `kind`
+      invoke(Recorder.record, { tag, kind }),
+    ];
+    assertEqual(lists.length, 6);
+  });
+}
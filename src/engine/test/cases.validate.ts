@@ -0,0 +1,175 @@
+import {
+  absent,
+  actions,
+  Frames,
+  SyncValidationError,
+  validateRequests,
+  validateSync,
+  Vars,
+} from "../mod.ts";
+import { $vars } from "../vars.ts";
+import { assert, assertEqual, setupEngine, TestRunner } from "./helpers.ts";
+import {
+  ButtonConcept,
+  CounterConcept,
+  NotificationConcept,
+  RecorderConcept,
+} from "./mocks.ts";
+
+// Button.clicked stands in for requests routed by kind, and
+// Notification.notify for responses
+function setup() {
+  const engine = setupEngine({
+    Button: new ButtonConcept(),
+    Counter: new CounterConcept(),
+    Notification: new NotificationConcept(),
+    Recorder: new RecorderConcept(),
+  });
+  engine.Sync.validation = {
+    request: engine.Button.clicked,
+    respond: engine.Notification.notify,
+    route: "kind",
+  };
+  return engine;
+}
+
+function messages(issues: { message: string }[]) {
+  return issues.map(({ message }) => message).join("\n");
+}
+
+export function registerValidateCases(runner: TestRunner) {
+  runner.test("strict register rejects unbound then variables", () => {
+    const { Sync, Button, Notification } = setup();
+    Sync.strict = true;
+    let error: unknown;
+    try {
+      Sync.register({
+        Unbound: ({ message }: Vars) => ({
+          when: actions([Button.clicked, {}, {}]),
+          then: actions([Notification.notify, { message }]),
+        }),
+      });
+    } catch (e) {
+      error = e;
+    }
+    assert(error instanceof SyncValidationError, "Expected validation error");
+    assert(messages(error.issues).includes("message"), "Names the variable");
+    assertEqual(Object.keys(Sync.syncs).length, 0);
+  });
+
+  runner.test("variables declared bound by where count as bound", () => {
+    const { Button, Notification } = setup();
+    const Bound = ({ kind, message }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) =>
+        frames.map(($) => ({ ...$, [message]: `clicked ${$[kind]}` })),
+      binds: [message],
+      then: actions([Notification.notify, { message }]),
+    });
+    // Mentioning a variable in `where` does not bind it
+    const Mentioned = ({ kind, message }: Vars) => ({
+      when: actions([Button.clicked, { kind }, {}]),
+      where: (frames: Frames) => frames.filter(($) => $[kind] !== message),
+      binds: [],
+      then: actions([Notification.notify, { message }]),
+    });
+    // Without `binds`, what `where` binds is left to be checked as it fires
+    const Undeclared = ({ message }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) =>
+        frames.map(($) => ({ ...$, [message]: "clicked" })),
+      then: actions([Notification.notify, { message }]),
+    });
+    const Fallback = ({ message }: Vars) => ({
+      when: actions([Button.clicked, {}, {}]),
+      where: (frames: Frames) => frames,
+      then: actions([Notification.notify, { message: "ok" }]),
+      otherwise: actions([Notification.notify, { message }]),
+    });
+    assertEqual(validateSync({ sync: "Bound", ...Bound($vars) }).length, 0);
+    assert(
+      messages(validateSync({ sync: "Mentioned", ...Mentioned($vars) }))
+        .includes("`then` variable message"),
+      "Reports the variable only mentioned",
+    );
+    assertEqual(
+      validateSync({ sync: "Undeclared", ...Undeclared($vars) }).length,
+      0,
+    );
+    const issues = validateSync({ sync: "Fallback", ...Fallback($vars) });
+    assertEqual(issues.length, 1);
+    assert(messages(issues).includes("`otherwise`"), "Reports otherwise");
+  });
+
+  runner.test("missing output and contradictory patterns are errors", () => {
+    const { Sync, Button, Counter, Notification } = setup();
+    const issues = validateSync({
+      sync: "Broken",
+      when: actions(
+        [Button.clicked, { kind: "a" }, {}],
+        [Button.clicked, { kind: "b" }, {}],
+        absent([Counter.increment, {}, {}]),
+        [Counter.increment, {}],
+      ),
+      then: actions([Notification.notify, { message: "never" }]),
+    }, Sync.validation);
+    const reported = messages(issues);
+    assert(reported.includes("missing output"), "Reports missing output");
+    assert(reported.includes("disagree on kind"), "Reports request conflict");
+    assert(reported.includes("both to occur"), "Reports absent conflict");
+  });
+
+  runner.test("requests must reach a response on every branch", () => {
+    const { Sync, Button, Recorder, Notification } = setup();
+    Sync.register({
+      Record: ({ tag }: Vars) => ({
+        when: actions([Button.clicked, { kind: "record", tag }, {}]),
+        where: (frames: Frames) => frames.filter(($) => $[tag] !== ""),
+        then: actions([Recorder.record, { tag }]),
+      }),
+      Recorded: ({ tag }: Vars) => ({
+        when: actions(
+          [Button.clicked, { kind: "record" }, {}],
+          [Recorder.record, {}, { tag }],
+        ),
+        then: actions([Notification.notify, { message: tag }]),
+      }),
+      Ignore: ({}: Vars) => ({
+        when: actions([Button.clicked, { kind: "ignore" }, {}]),
+        then: actions([Recorder.record, { tag: "ignored" }]),
+      }),
+    });
+    const issues = Sync.validate();
+    const byRoute = (route: string) =>
+      issues.filter((issue) => issue.route === route);
+    assertEqual(byRoute("ignore")[0]?.severity, "error");
+    assertEqual(byRoute("record").length, 2);
+    assert(
+      messages(byRoute("record")).includes("returns an error"),
+      "Reports unhandled error output",
+    );
+    assert(
+      messages(byRoute("record")).includes("filtered out"),
+      "Reports unanswered where branch",
+    );
+
+    Sync.register({
+      RecordError: ({ error }: Vars) => ({
+        when: actions(
+          [Button.clicked, { kind: "record" }, {}],
+          [Recorder.record, {}, { error }],
+        ),
+        then: actions([Notification.notify, { message: error }]),
+      }),
+      RejectEmpty: ({}: Vars) => ({
+        when: actions([Button.clicked, { kind: "record", tag: "" }, {}]),
+        then: actions([Notification.notify, { message: "empty" }]),
+      }),
+    });
+    const remaining = validateRequests(
+      Object.values(Sync.syncs),
+      Sync.validation,
+    );
+    assertEqual(remaining.filter(({ route }) => route === "record").length, 0);
+  });
+}
@@ -1,5 +1,5 @@
 /* Test helpers and logging capture */
-import { Logging, SyncConcept } from "../mod.ts";
+import { ActionConcept, Logging, SyncConcept } from "../mod.ts";
 
 export type AsyncTest = () => Promise<void> | void;
 
@@ -54,6 +54,35 @@ export function setLogging(sync: SyncConcept, level: Logging) {
   sync.logging = level;
 }
 
+/**
+ * Creates an engine with logging off, and the given concepts instrumented
+ * by it. Actions are recorded by `Action`, if given.
+ */
+export function setupEngine<T extends Record<string, object>>(
+  concepts: T,
+  Action = new ActionConcept(),
+) {
+  const Sync = new SyncConcept(Action);
+  setLogging(Sync, Logging.OFF);
+  return { Sync, ...Sync.instrument(concepts) };
+}
+
+/**
+ * Runs `run` with errors reported to the console silenced, such as those
+ * of failed actions and halted flows, and returns the calls reporting them.
+ */
+export async function quietly(run: () => unknown) {
+  const error = console.error;
+  const reported: unknown[][] = [];
+  console.error = (...args: unknown[]) => reported.push(args);
+  try {
+    await run();
+    return reported;
+  } finally {
+    console.error = error;
+  }
+}
+
 export function captureConsole(onLog: (...args: unknown[]) => void) {
   const original = console.log;
   console.log = (...args: unknown[]) => {
@@ -69,7 +98,10 @@ export function captureConsole(onLog: (...args: unknown[]) => void) {
   };
 }
 
-export function assert(condition: unknown, message = "Assertion failed") {
+export function assert(
+  condition: unknown,
+  message = "Assertion failed",
+): asserts condition {
   if (!condition) throw new Error(message);
 }
 
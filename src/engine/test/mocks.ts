@@ -1,4 +1,5 @@
 /* Minimal mock concepts used for testing */
+import { partial } from "../sync.ts";
 import { Empty } from "../types.ts";
 
 export class CounterConcept {
@@ -47,8 +48,11 @@ export class ListConcept {
   _items(_: Empty): { value: number }[] {
     return this.values.map((v) => ({ value: v }));
   }
+  // Number of async reads, for testing cached queries
+  public reads = 0;
   async _itemsAsync(_: Empty): Promise<{ value: number }[]> {
     // simulate async read
+    this.reads++;
     await Promise.resolve();
     return this.values.map((v) => ({ value: v }));
   }
@@ -65,3 +69,83 @@ export class RecorderConcept {
     return this.order.map((t) => ({ tag: t }));
   }
 }
+
+// Concept with nested outputs for structural matching
+export class InboxConcept {
+  receive({ message }: { message: { sender: string; body: string } }) {
+    return { message };
+  }
+}
+
+// Concept whose action throws, for testing error handling
+export class FlakyConcept {
+  public attempts = 0;
+  fail({ reason }: { reason: string }): { done: boolean } {
+    this.attempts++;
+    throw new Error(reason);
+  }
+}
+
+// Concept with union and non-object outputs for typed patterns
+export class PresenceConcept {
+  private online = new Set<string>();
+  connect({ user }: { user: string }): { user: string } | { error: string } {
+    if (this.online.has(user)) return { error: `${user} is already online` };
+    this.online.add(user);
+    return { user };
+  }
+  isOnline({ user }: { user: string }): boolean {
+    return this.online.has(user);
+  }
+}
+
+// Concept whose action takes time, for testing concurrent syncs
+export class SlowConcept {
+  public events: string[] = [];
+  public running = 0;
+  public peak = 0;
+  async wait({ tag, ms }: { tag: string; ms: number }) {
+    this.events.push(`start ${tag}`);
+    this.peak = Math.max(this.peak, ++this.running);
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    this.running--;
+    this.events.push(`end ${tag}`);
+    return { tag };
+  }
+}
+
+// Concept whose action reports its reply word by word, for testing partials
+export class StreamConcept {
+  async reply({ words }: { words: string[] }) {
+    for (const word of words) await partial({ chunk: word });
+    return { reply: words.join(" ") };
+  }
+}
+
+// Minimal stand-ins for the Requesting and Sessioning concepts
+export class RequestConcept {
+  public responses: Record<string, unknown>[] = [];
+  public chunks: Record<string, unknown>[] = [];
+  private count = 0;
+  request(_: { path: string; [key: string]: unknown }) {
+    return { request: `request-${++this.count}` };
+  }
+  respond(
+    { request, ...response }: { request: string; [key: string]: unknown },
+  ) {
+    this.responses.push(response);
+    return { request };
+  }
+  stream(
+    { request, ...chunk }: { request: string; [key: string]: unknown },
+  ) {
+    this.chunks.push(chunk);
+    return { request };
+  }
+}
+
+export class SessionConcept {
+  _getUser({ session }: { session: string }): { user: string }[] {
+    return session === "valid" ? [{ user: "alice" }] : [];
+  }
+}
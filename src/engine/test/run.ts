@@ -1,12 +1,52 @@
 import { TestRunner } from "./helpers.ts";
 import process from "node:process";
 import { registerBasicCases } from "./cases.basic.ts";
+import { registerCacheCases } from "./cases.cache.ts";
+import { registerConcurrencyCases } from "./cases.concurrency.ts";
+import { registerDeclarativeCases } from "./cases.declarative.ts";
 import { registerEngineEdgeCases } from "./cases.engine.ts";
+import { registerErrorCases } from "./cases.errors.ts";
+import { registerFramesCases } from "./cases.frames.ts";
+import { registerGlobalCases } from "./cases.global.ts";
+import { registerGraphCases } from "./cases.graph.ts";
+import { registerHarnessCases } from "./cases.harness.ts";
+import { registerJournalCases } from "./cases.journal.ts";
+import { registerLimitCases } from "./cases.limits.ts";
+import { registerMetricsCases } from "./cases.metrics.ts";
+import { registerPartialCases } from "./cases.partial.ts";
+import { registerPatternCases } from "./cases.patterns.ts";
+import { registerPriorityCases } from "./cases.priority.ts";
+import { registerReloadCases } from "./cases.reload.ts";
+import { registerReplayCases } from "./cases.replay.ts";
+import { registerSchemaCases } from "./cases.schema.ts";
+import { registerTransactionCases } from "./cases.transactions.ts";
+import { registerTypedCases } from "./cases.typed.ts";
+import { registerValidateCases } from "./cases.validate.ts";
 
 async function main() {
   const runner = new TestRunner();
   await registerBasicCases(runner);
   await registerEngineEdgeCases(runner);
+  await registerPatternCases(runner);
+  await registerJournalCases(runner);
+  await registerReplayCases(runner);
+  await registerValidateCases(runner);
+  await registerLimitCases(runner);
+  await registerErrorCases(runner);
+  await registerTypedCases(runner);
+  await registerConcurrencyCases(runner);
+  await registerPriorityCases(runner);
+  await registerCacheCases(runner);
+  await registerFramesCases(runner);
+  await registerDeclarativeCases(runner);
+  await registerReloadCases(runner);
+  await registerMetricsCases(runner);
+  await registerGraphCases(runner);
+  await registerHarnessCases(runner);
+  await registerTransactionCases(runner);
+  await registerGlobalCases(runner);
+  await registerPartialCases(runner);
+  await registerSchemaCases(runner);
 
   const { results, ok } = await runner.run();
   const lines: string[] = [];
@@ -0,0 +1,195 @@
+import { actionName, ActionRecord, conceptName } from "./actions.ts";
+import { Matcher, matchFields } from "./matchers.ts";
+import { inFlow, SyncConcept } from "./sync.ts";
+import { Mapping, SyncFunction } from "./types.ts";
+import { uuid } from "./util.ts";
+
+/**
+ * Harness for testing syncs: registers a subset of them with an engine,
+ * fires an action or a request, and reports the actions of the flow that
+ * followed, along with the response to the request. With `deno test`:
+ *
+ *   const harness = new SyncHarness(Engine, { request, respond });
+ *   harness.use(auth, ["AuthenticatedGenerateCode", "GenerateCodeResponse"]);
+ *   const result = await harness.request({ path: "/Pairing/generateCode", session });
+ *   assertActions(result, ["Requesting.request", "Pairing.generateCode", "Requesting.respond"]);
+ *   assertResponse(result, { code: exists() });
+ */
+
+export interface HarnessOptions {
+  // Action through which requests enter, and the action responding to them
+  // deno-lint-ignore ban-types
+  request: Function;
+  // deno-lint-ignore ban-types
+  respond: Function;
+}
+
+// An action of a flow, named as "Concept.action"
+export interface FlowAction {
+  action: string;
+  input: Mapping;
+  output?: Mapping;
+  // Sync whose `then` fired the action
+  sync?: string;
+}
+
+export interface FlowResult {
+  flow: string;
+  // Actions of the flow, in the order they were invoked
+  actions: FlowAction[];
+  // Input of the first response in the flow, without the request
+  response?: Mapping;
+}
+
+export class SyncAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SyncAssertionError";
+  }
+}
+
+export class SyncHarness {
+  private restores: (() => void)[] = [];
+
+  constructor(
+    public readonly engine: SyncConcept,
+    private readonly options: HarnessOptions,
+  ) {}
+
+  /**
+   * Registers the syncs named in `names`, or all of them, in place of any
+   * registered before. `syncs` can be a module of syncs, as imported.
+   */
+  use(syncs: Record<string, unknown>, names?: string[]) {
+    const selected: Record<string, SyncFunction> = {};
+    for (const [name, sync] of Object.entries(syncs)) {
+      if (typeof sync !== "function") continue;
+      if (names === undefined || names.includes(name)) {
+        selected[name] = sync as SyncFunction;
+      }
+    }
+    const unknown = (names ?? []).filter((name) => !(name in selected));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown syncs: ${unknown.join(", ")}.`);
+    }
+    this.engine.replace(selected);
+  }
+
+  /**
+   * Substitutes `fake` for the actions and queries of `concept` that it
+   * implements, until `reset`.
+   */
+  fake(concept: object, fake: object) {
+    this.restores.push(this.engine.fake(concept, fake));
+  }
+
+  /**
+   * Unregisters every sync and restores faked concepts.
+   */
+  reset() {
+    this.engine.unregister(...Object.keys(this.engine.syncs));
+    for (const restore of this.restores.splice(0)) restore();
+  }
+
+  /**
+   * Invokes the instrumented `action` in a new flow, and returns the flow
+   * once every sync it triggered has completed.
+   */
+  // deno-lint-ignore ban-types
+  async run(action: Function, input: Mapping): Promise<FlowResult> {
+    const flow = uuid();
+    await action(inFlow(flow, input));
+    const records = this.engine.Action._getByFlow(flow) ?? [];
+    const responded = records.find(({ action }) =>
+      action === this.options.respond
+    );
+    const { request: _, ...response } = responded?.input ?? {};
+    return {
+      flow,
+      actions: records.map(flowAction),
+      ...(responded !== undefined ? { response } : {}),
+    };
+  }
+
+  request(input: Mapping) {
+    return this.run(this.options.request, input);
+  }
+}
+
+function flowAction(record: ActionRecord): FlowAction {
+  const { concept, action, input, output, sync } = record;
+  return {
+    action: `${conceptName(concept)}.${actionName(action)}`,
+    input,
+    ...(output !== undefined ? { output } : {}),
+    ...(sync !== undefined ? { sync } : {}),
+  };
+}
+
+// Whether `actual` has every field of `expected`, as matched by a `when`
+function matches(actual: Mapping | undefined, expected: Mapping = {}) {
+  return matchFields(actual ?? {}, expected, {}) !== undefined;
+}
+
+function describe(value: unknown) {
+  return JSON.stringify(
+    value,
+    (_, field) => field instanceof Matcher ? field.description : field,
+  );
+}
+
+/**
+ * An expected action: its name, and optionally its sync and patterns its
+ * input and output must match, as in a `when` clause.
+ */
+export type ExpectedAction = string | {
+  action: string;
+  input?: Mapping;
+  output?: Mapping;
+  sync?: string;
+};
+
+/**
+ * Asserts that the flow consists of exactly the expected actions, in order.
+ */
+export function assertActions(result: FlowResult, expected: ExpectedAction[]) {
+  const actual = result.actions;
+  const names = actual.map(({ action }) => action);
+  const mismatch = expected.findIndex((expectation, i) => {
+    const action = actual[i];
+    if (action === undefined) return true;
+    if (typeof expectation === "string") return action.action !== expectation;
+    return action.action !== expectation.action ||
+      !matches(action.input, expectation.input) ||
+      !matches(action.output, expectation.output) ||
+      (expectation.sync !== undefined && action.sync !== expectation.sync);
+  });
+  if (mismatch >= 0 || actual.length !== expected.length) {
+    const at = mismatch >= 0 ? mismatch : expected.length;
+    throw new SyncAssertionError(
+      `Flow differs at action ${at}: expected ${describe(expected[at])}, ` +
+        `got ${describe(actual[at])}.\nActions: ${names.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Asserts that the flow responded to its request, with a response that
+ * matches `expected` as in a `when` clause.
+ */
+export function assertResponse(result: FlowResult, expected: Mapping) {
+  if (result.response === undefined) {
+    throw new SyncAssertionError(
+      `The request got no response.\nActions: ${
+        result.actions.map(({ action }) => action).join(", ")
+      }`,
+    );
+  }
+  if (!matches(result.response, expected)) {
+    throw new SyncAssertionError(
+      `Expected a response with ${describe(expected)}, got ${
+        describe(result.response)
+      }.`,
+    );
+  }
+}
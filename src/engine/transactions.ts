@@ -0,0 +1,170 @@
+import type {
+  ClientSession,
+  Db,
+  MongoClient,
+  TransactionOptions,
+} from "npm:mongodb";
+import { AsyncLocalStorage } from "./util.ts";
+
+/**
+ * Runs each flow in a transaction, when set as `Engine.transactions`. The
+ * engine begins a transaction with the first action of a flow and runs
+ * every action of the flow within it. Once the flow completes, it commits
+ * the transaction, or aborts it if an action threw or the flow was halted.
+ * Listeners are told whether each flow was rolled back as it completes.
+ *
+ * Actions that return an `{ error }` output do not fail the flow: syncs
+ * may handle the error and carry on, so the writes of the flow up to then
+ * are committed with the rest. Concepts that must not leave partial writes
+ * behind should throw instead, or undo them before returning the error.
+ */
+export interface FlowTransactions {
+  begin(flow: string): Promise<void> | void;
+  // Runs an action of the flow, and the syncs it triggers, in its transaction
+  run<T>(flow: string, fn: () => Promise<T>): Promise<T>;
+  commit(flow: string): Promise<void>;
+  abort(flow: string): Promise<void>;
+}
+
+// Attempts at committing a transaction whose outcome is unknown
+const COMMIT_ATTEMPTS = 3;
+
+// Whether a MongoDB error carries an error label, such as those telling
+// whether a failed transaction operation can be retried
+function hasErrorLabel(error: unknown, label: string) {
+  const labelled = error as { hasErrorLabel?: (label: string) => boolean };
+  return labelled?.hasErrorLabel?.(label) === true;
+}
+
+// Session of the transaction of the flow being run
+const sessionContext = new AsyncLocalStorage<ClientSession>();
+
+/**
+ * The session of the flow being run, for operations that concepts do not
+ * run through a `transactional` database.
+ */
+export function currentSession() {
+  return sessionContext.getStore();
+}
+
+/**
+ * Runs flows in MongoDB transactions, one session per flow. Transactions
+ * need a replica set or a sharded cluster, as MongoDB Atlas provides.
+ */
+export class MongoFlowTransactions implements FlowTransactions {
+  private sessions: Map<string, ClientSession> = new Map();
+
+  constructor(
+    private readonly client: MongoClient,
+    private readonly options: TransactionOptions = {},
+  ) {}
+
+  begin(flow: string) {
+    const session = this.client.startSession();
+    session.startTransaction(this.options);
+    this.sessions.set(flow, session);
+  }
+
+  run<T>(flow: string, fn: () => Promise<T>) {
+    const session = this.sessions.get(flow);
+    return session === undefined ? fn() : sessionContext.run(session, fn);
+  }
+
+  /**
+   * Commits the transaction of a flow, retrying while the outcome of the
+   * commit is unknown, as when the connection drops while committing. A
+   * transient error aborts the transaction, failing the commit, as the
+   * flow cannot be run again.
+   */
+  async commit(flow: string) {
+    await this.end(flow, async (session) => {
+      for (let attempt = 1;; attempt++) {
+        try {
+          return await session.commitTransaction();
+        } catch (error) {
+          const unknown = hasErrorLabel(
+            error,
+            "UnknownTransactionCommitResult",
+          );
+          if (!unknown || attempt >= COMMIT_ATTEMPTS) throw error;
+        }
+      }
+    });
+  }
+
+  async abort(flow: string) {
+    await this.end(flow, (session) => session.abortTransaction());
+  }
+
+  private async end(
+    flow: string,
+    finish: (session: ClientSession) => Promise<unknown>,
+  ) {
+    const session = this.sessions.get(flow);
+    if (session === undefined) return;
+    this.sessions.delete(flow);
+    try {
+      await finish(session);
+    } finally {
+      await session.endSession();
+    }
+  }
+}
+
+// Position of the options argument of collection methods, which take a session
+const OPTIONS_ARGUMENT: Record<string, number> = {
+  aggregate: 1,
+  bulkWrite: 1,
+  countDocuments: 1,
+  deleteMany: 1,
+  deleteOne: 1,
+  distinct: 2,
+  find: 1,
+  findOne: 1,
+  findOneAndDelete: 1,
+  findOneAndReplace: 2,
+  findOneAndUpdate: 2,
+  insertMany: 1,
+  insertOne: 1,
+  replaceOne: 2,
+  updateMany: 2,
+  updateOne: 2,
+};
+
+function inSession<T extends object>(collection: T): T {
+  return new Proxy(collection, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (typeof value !== "function") return value;
+      const index = typeof prop === "string"
+        ? OPTIONS_ARGUMENT[prop]
+        : undefined;
+      if (index === undefined) return value.bind(target);
+      return (...args: unknown[]) => {
+        const session = sessionContext.getStore();
+        const options = args[index] as Record<string, unknown> | undefined;
+        if (session !== undefined && options?.session === undefined) {
+          args[index] = { ...options, session };
+        }
+        return value.apply(target, args);
+      };
+    },
+  });
+}
+
+/**
+ * Wraps a database so that the operations of its collections join the
+ * transaction of the flow being run, if any, without concepts passing the
+ * session themselves. Outside of a transaction, operations run as usual.
+ */
+export function transactional(db: Db): Db {
+  return new Proxy(db, {
+    get(target, prop) {
+      const value = Reflect.get(target, prop);
+      if (typeof value !== "function") return value;
+      if (prop !== "collection") return value.bind(target);
+      return (...args: Parameters<Db["collection"]>) =>
+        inSession(target.collection(...args));
+    },
+  });
+}
@@ -0,0 +1,86 @@
+import { Matcher } from "./matchers.ts";
+import { ActionList, Empty, InstrumentedAction, Mapping } from "./types.ts";
+
+/**
+ * Typed builders for the action patterns of a sync. Unlike the plain
+ * `[action, input, output]` lists, the field names and literal values of
+ * the patterns are checked against the signature of the concept action:
+ *
+ *   when: actions(on(Pairing.getPair, {}, { pair })),
+ *   then: actions(invoke(Requesting.respond, { request, pair })),
+ *
+ * Binding a field the action never returns, misspelling an input field,
+ * or matching the output of an action that does not return an object
+ * are compile errors. Nested fields are matched with nested objects
+ * rather than dotted keys.
+ */
+
+// Every action is assignable, whatever its input
+type AnyAction = (input: never) => unknown;
+
+export type ActionInput<F extends AnyAction> = Parameters<F>[0];
+export type ActionOutput<F extends AnyAction> = Awaited<ReturnType<F>>;
+
+// The fields of any member of a union, ignoring the `Empty` member
+type Keys<T> = T extends unknown ? (T extends Empty ? never : keyof T)
+  : never;
+type Field<T, K extends PropertyKey> = T extends unknown
+  ? (K extends keyof T ? T[K] : never)
+  : never;
+
+/**
+ * A pattern for a value of type `T`: the value itself, a variable to
+ * bind, a matcher, or a pattern for its fields.
+ */
+export type ValuePattern<T> =
+  | T
+  | symbol
+  | Matcher
+  | (T extends object ? FieldPatterns<T> : never);
+
+/**
+ * Patterns for some of the fields of `T`. Fields of every member of a
+ * union can be matched, like `error` of `{ pair } | { error }`.
+ */
+export type FieldPatterns<T> = {
+  [K in Keys<T>]?: ValuePattern<Field<T, K>>;
+};
+
+/**
+ * Patterns for the output of an action, which only exist for actions
+ * returning objects.
+ */
+export type OutputPatterns<F extends AnyAction> = [ActionOutput<F>] extends
+  [object] ? ([ActionOutput<F>] extends [readonly unknown[]] ? never
+    : FieldPatterns<ActionOutput<F>>)
+  : never;
+
+/**
+ * The input of an invoked action: every required field is given, as a
+ * value or as a variable bound by the sync.
+ */
+export type InvokeInput<T> = {
+  [K in keyof T]: T[K] | symbol;
+};
+
+/**
+ * A typed `when` pattern, matching an occurrence of `action` with the
+ * given input and output patterns.
+ */
+export function on<F extends AnyAction>(
+  action: F,
+  input: FieldPatterns<ActionInput<F>>,
+  output: OutputPatterns<F>,
+): ActionList {
+  return [action as InstrumentedAction, input as Mapping, output as Mapping];
+}
+
+/**
+ * A typed `then` pattern, invoking `action` with the given input.
+ */
+export function invoke<F extends AnyAction>(
+  action: F,
+  input: InvokeInput<ActionInput<F>>,
+): ActionList {
+  return [action as InstrumentedAction, input as Mapping];
+}
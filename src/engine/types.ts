@@ -1,4 +1,5 @@
 import { Frames } from "./frames.ts";
+import type { ActionRecord } from "./actions.ts";
 
 export type Mapping = Record<string, unknown>;
 export type Frame = Record<symbol, unknown>;
@@ -8,18 +9,57 @@ export type ActionFunction<TInput = Mapping, TOutput = Mapping> = (
 ) => TOutput;
 
 export type ActionList = [InstrumentedAction, Mapping, Mapping?];
+export interface AbsentActionList {
+  absent: ActionList;
+}
 export interface ActionPattern {
   action: InstrumentedAction;
   concept: object;
   input: Mapping;
   output?: Mapping;
   flow: symbol;
+  // Matches only if no such action occurred in the flow
+  absent?: boolean;
+  // Present if the pattern matches actions other than `action`
+  selector?: ActionSelector;
+}
+
+export interface ActionSelector {
+  // Restricts matches to actions of this concept
+  concept?: object;
+  // Variables bound to the names of the concept and action matched
+  conceptVar?: symbol;
+  actionVar?: symbol;
 }
 
 interface SyncDeclaration {
   when: ActionPattern[];
   where?: (frames: Frames) => Frames | Promise<Frames>;
+  // Variables that `where` binds, for validation to check the variables of
+  // `then` against; without it, those `where` may bind are checked as it
+  // fires instead
+  binds?: symbol[];
   then: ActionPattern[];
+  // Fired with the `when` frames instead of `then` if `where` yields none
+  otherwise?: ActionPattern[];
+  // Fired when an action of `then` throws, with the message bound to `caught`
+  catch?: ActionPattern[];
+  // Fired before `catch` to undo the `then` actions completed before a throw
+  compensate?: ActionPattern[];
+  // Runs `then` actions concurrently, at most this many at once if a number,
+  // and alongside other concurrent syncs matching the same action
+  concurrent?: boolean | number;
+  // Syncs to complete first when matching the same action
+  after?: string[];
+  // Syncs of higher priority run first when matching the same action
+  priority?: number;
+  // Of the syncs in a group matching the same action, only the first to
+  // fire does
+  group?: string;
+  // Matches `when` against the actions of every flow still in memory, one
+  // of them the action being synchronized, and fires `then` in a new flow
+  // per frame once the flow of that action completes
+  global?: boolean;
 }
 
 export interface Synchronization extends SyncDeclaration {
@@ -28,9 +68,51 @@ export interface Synchronization extends SyncDeclaration {
 
 export interface InstrumentedAction extends Function {
   concept?: object;
+  selector?: ActionSelector;
   // deno-lint-ignore ban-types
   action?: Function;
 }
+/**
+ * Observer of the steps taken while synchronizing an action. Each hook
+ * receives the record that triggered the synchronization.
+ */
+export interface SyncListener {
+  // Frames produced by matching the `when` clause
+  matched?(sync: Synchronization, record: ActionRecord, frames: Frames): void;
+  // Frames remaining after processing the `where` clause
+  filtered?(sync: Synchronization, record: ActionRecord, frames: Frames): void;
+  // An action fired by the `then` clause, with its bound input
+  fired?(
+    sync: Synchronization,
+    record: ActionRecord,
+    action: InstrumentedAction,
+    input: Mapping,
+  ): void;
+  // Time a sync took to process an action it matched, in ms
+  synced?(sync: Synchronization, record: ActionRecord, duration: number): void;
+  // An action that returned, with the time it took to run, in ms
+  performed?(record: ActionRecord, duration: number): void;
+  // A flow whose actions have all finished synchronizing, with its duration
+  // and whether its transaction, if any, was rolled back rather than
+  // committed
+  completed?(flow: string, duration: number, rolledBack: boolean): void;
+}
+
+export type FlowLimitReason = "depth" | "actions" | "cycle";
+
+/**
+ * Limits that halt a flow before runaway syncs exhaust the process.
+ */
+export interface FlowLimits {
+  // Longest chain of sync-produced actions from an external action
+  maxDepth: number;
+  // Most actions in a single flow
+  maxActions: number;
+  // Halt when a sync would fire an action with the same input as one it
+  // produced among the causes of the actions triggering it
+  detectCycles: boolean;
+}
+
 export type Vars = Record<string, symbol>;
 
 export type SyncFunction = (vars: Vars) => SyncDeclaration;
@@ -1,5 +1,6 @@
 // Node helper functions
-export { inspect } from "node:util";
+export { inspect, isDeepStrictEqual } from "node:util";
+export { AsyncLocalStorage } from "node:async_hooks";
 import { randomUUID } from "node:crypto";
 
 export function uuid() {
@@ -0,0 +1,351 @@
+import { actionName, conceptName } from "./actions.ts";
+import { isPlainObject, Matcher } from "./matchers.ts";
+import {
+  ActionPattern,
+  InstrumentedAction,
+  Mapping,
+  Synchronization,
+} from "./types.ts";
+import { caught } from "./vars.ts";
+
+export interface SyncIssue {
+  severity: "error" | "warning";
+  message: string;
+  // Sync at fault, if the issue concerns a single sync
+  sync?: string;
+  // Request route at fault, for issues with request/response coverage
+  route?: string;
+}
+
+export interface ValidationOptions {
+  // Action through which external requests enter, e.g. Requesting.request
+  request?: InstrumentedAction;
+  // Action that answers a request, e.g. Requesting.respond
+  respond?: InstrumentedAction;
+  // Input field of `request` that routes requests
+  route?: string;
+}
+
+export class SyncValidationError extends Error {
+  constructor(public readonly issues: SyncIssue[]) {
+    super(`Invalid synchronizations:\n${formatIssues(issues)}`);
+    this.name = "SyncValidationError";
+  }
+}
+
+export function formatIssues(issues: SyncIssue[]) {
+  return issues.map(({ severity, message, sync, route }) =>
+    `  ${severity}: ${sync ?? route ?? ""}: ${message}`
+  ).join("\n");
+}
+
+function describe(pattern: ActionPattern) {
+  if (pattern.selector !== undefined) return "anyAction";
+  return `${conceptName(pattern.concept)}.${actionName(pattern.action)}`;
+}
+
+function describeAction(action: InstrumentedAction) {
+  const concept = action.concept ? conceptName(action.concept) : "UNDEFINED";
+  return `${concept}.${actionName(action)}`;
+}
+
+// Variables that a pattern value can bind when matched
+function boundBy(value: unknown): symbol[] {
+  if (typeof value === "symbol") return [value];
+  if (value instanceof Matcher) return value.bindings;
+  if (isPlainObject(value)) return Object.values(value).flatMap(boundBy);
+  return [];
+}
+
+function boundByPattern({ input, output, selector }: ActionPattern) {
+  return [
+    ...Object.values(input).flatMap(boundBy),
+    ...Object.values(output ?? {}).flatMap(boundBy),
+    ...(selector?.conceptVar ? [selector.conceptVar] : []),
+    ...(selector?.actionVar ? [selector.actionVar] : []),
+  ];
+}
+
+function variables(patterns: ActionPattern[]) {
+  return new Set(
+    patterns.flatMap(({ input }) =>
+      Object.values(input).filter((value) => typeof value === "symbol")
+    ) as symbol[],
+  );
+}
+
+// Whether a literal pattern value can match a record that `other` matches
+function compatible(value: unknown, other: unknown) {
+  if (typeof value === "symbol" || typeof other === "symbol") return true;
+  if (value instanceof Matcher || other instanceof Matcher) {
+    const [matcher, literal] = value instanceof Matcher
+      ? [value, other]
+      : [other as Matcher, value];
+    if (literal instanceof Matcher || isPlainObject(literal)) return true;
+    return matcher.match(literal, {}) !== undefined;
+  }
+  if (isPlainObject(value) || isPlainObject(other)) return true;
+  return value === other;
+}
+
+/**
+ * Checks a single sync for mistakes that would otherwise only surface at
+ * runtime: missing output patterns, `then` variables that nothing binds,
+ * and `when` patterns that can never match in the same flow.
+ *
+ * Whether `where` binds a variable cannot be known without running it, so
+ * a variable counts as bound by `where` if the sync declares it in `binds`.
+ * A sync with `where` but no `binds` has the variables `where` may bind
+ * left to be checked as it fires.
+ */
+export function validateSync(
+  sync: Synchronization,
+  { request }: ValidationOptions = {},
+): SyncIssue[] {
+  const issues: SyncIssue[] = [];
+  const error = (message: string) =>
+    issues.push({ severity: "error", sync: sync.sync, message });
+  const present = sync.when.filter(({ absent }) => !absent);
+
+  for (const pattern of present) {
+    if (pattern.output === undefined) {
+      error(`\`when\` pattern ${describe(pattern)} is missing output pattern.`);
+    }
+  }
+
+  const bound = new Set(present.flatMap(boundByPattern));
+  const boundByWhere = (variable: symbol) =>
+    sync.where !== undefined && (sync.binds?.includes(variable) ?? true);
+  if (sync.binds !== undefined && sync.where === undefined) {
+    error(`\`binds\` is declared without \`where\`.`);
+  }
+  for (const variable of variables(sync.then)) {
+    if (bound.has(variable) || boundByWhere(variable)) continue;
+    error(
+      `\`then\` variable ${variable.description} is not bound by \`when\` or \`where\`.`,
+    );
+  }
+  // Error handlers fire with the frames of `then`, and the error caught
+  for (const clause of ["catch", "compensate"] as const) {
+    for (const variable of variables(sync[clause] ?? [])) {
+      const isBound = variable === caught || bound.has(variable) ||
+        boundByWhere(variable);
+      if (isBound) continue;
+      error(
+        `\`${clause}\` variable ${variable.description} is not bound by \`when\` or \`where\`.`,
+      );
+    }
+  }
+  // `otherwise` fires with the frames of `when` alone
+  for (const variable of variables(sync.otherwise ?? [])) {
+    if (bound.has(variable)) continue;
+    error(
+      `\`otherwise\` variable ${variable.description} is not bound by \`when\`.`,
+    );
+  }
+
+  const { concurrent } = sync;
+  if (
+    typeof concurrent === "number" &&
+    !(Number.isInteger(concurrent) && concurrent > 0)
+  ) {
+    error(`\`concurrent\` must be a positive integer, got ${concurrent}.`);
+  }
+  if (sync.after?.includes(sync.sync)) {
+    error(`\`after\` lists the sync itself.`);
+  }
+
+  // Each flow has a single request, so request patterns must agree
+  const requests = present.filter(({ action }) => action === request);
+  for (const [i, first] of requests.entries()) {
+    for (const second of requests.slice(i + 1)) {
+      const conflict = Object.keys(first.input).find((key) =>
+        key in second.input &&
+        !compatible(first.input[key], second.input[key])
+      );
+      if (conflict !== undefined) {
+        error(
+          `\`when\` patterns on ${describe(first)} disagree on ${conflict}, ` +
+            `so they can never match in the same flow.`,
+        );
+      }
+    }
+  }
+  // An absent pattern that matches whatever a present one matches
+  const covers = (positive: Mapping = {}, negative: Mapping = {}) =>
+    Object.entries(negative).every(([key, value]) =>
+      (typeof value === "symbol" && !bound.has(value)) ||
+      (key in positive && positive[key] === value)
+    );
+  for (const negated of sync.when.filter(({ absent }) => absent)) {
+    const contradicted = present.find((pattern) =>
+      pattern.action === negated.action &&
+      covers(pattern.input, negated.input) &&
+      covers(pattern.output, negated.output)
+    );
+    if (contradicted !== undefined) {
+      error(
+        `\`when\` requires ${describe(contradicted)} both to occur and to ` +
+          `be absent, so it can never match.`,
+      );
+    }
+  }
+  return issues;
+}
+
+/**
+ * Checks that the syncs named by `after` are registered, and that no syncs
+ * come after each other.
+ */
+export function validateOrdering(syncs: Synchronization[]): SyncIssue[] {
+  const issues: SyncIssue[] = [];
+  const byName = new Map(syncs.map((sync) => [sync.sync, sync]));
+  for (const sync of syncs) {
+    for (const name of sync.after ?? []) {
+      if (byName.has(name)) continue;
+      issues.push({
+        severity: "error",
+        sync: sync.sync,
+        message: `\`after\` names unknown sync ${name}.`,
+      });
+    }
+  }
+  // Depth-first search for a cycle through each sync
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const cycle = (name: string): string[] | undefined => {
+    if (done.has(name)) return undefined;
+    if (visiting.has(name)) return [name];
+    visiting.add(name);
+    for (const next of byName.get(name)?.after ?? []) {
+      const found = cycle(next);
+      if (found !== undefined) return [name, ...found];
+    }
+    visiting.delete(name);
+    done.add(name);
+    return undefined;
+  };
+  for (const { sync } of syncs) {
+    const found = cycle(sync);
+    if (found === undefined) continue;
+    issues.push({
+      severity: "error",
+      sync,
+      message: `\`after\` forms a cycle: ${found.join(" -> ")}.`,
+    });
+    break;
+  }
+  return issues;
+}
+
+/**
+ * Checks that every route requested through `request` reaches `respond`,
+ * and that the branches where a `where` filters out the request, or an
+ * action reports an error, also lead to a response.
+ *
+ * Routes are the literal values of the route field in `when` patterns.
+ * The flow of a route is approximated by the actions that syncs matching
+ * the route can fire, without evaluating `where` clauses.
+ */
+export function validateRequests(
+  syncs: Synchronization[],
+  { request, respond, route = "path" }: ValidationOptions,
+): SyncIssue[] {
+  if (request === undefined || respond === undefined) return [];
+  const issues: SyncIssue[] = [];
+  const requestPatterns = (sync: Synchronization) =>
+    sync.when.filter(({ action, absent }) => action === request && !absent);
+  const routes = new Set(
+    syncs.flatMap(requestPatterns)
+      .map(({ input }) => input[route])
+      .filter((value) => typeof value === "string") as string[],
+  );
+  const responds = (patterns: ActionPattern[] = []) =>
+    patterns.some(({ action }) => action === respond);
+
+  for (const path of routes) {
+    const relevant = syncs.filter((sync) => {
+      const patterns = requestPatterns(sync);
+      return patterns.length > 0 &&
+        patterns.every(({ input }) =>
+          !(route in input) || compatible(input[route], path)
+        );
+    });
+
+    // Actions that can occur in the flow of the route
+    const reached = new Set<InstrumentedAction>([request]);
+    for (let grown = true; grown;) {
+      grown = false;
+      for (const sync of relevant) {
+        const triggered = sync.when.every(({ action, absent, selector }) =>
+          absent || selector !== undefined || reached.has(action)
+        );
+        if (!triggered) continue;
+        const fired = [
+          ...sync.then,
+          ...sync.otherwise ?? [],
+          ...sync.catch ?? [],
+          ...sync.compensate ?? [],
+        ];
+        for (const { action } of fired) {
+          if (reached.has(action)) continue;
+          reached.add(action);
+          grown = true;
+        }
+      }
+    }
+    if (!reached.has(respond)) {
+      issues.push({
+        severity: "error",
+        route: path,
+        message: `never reaches ${describeAction(respond)}.`,
+      });
+      continue;
+    }
+
+    // Syncs on the request alone, such as authentication guards
+    const direct = relevant.filter((sync) =>
+      sync.when.every(({ action, absent }) => absent || action === request)
+    );
+    for (const sync of direct) {
+      if (!sync.where || sync.otherwise || responds(sync.then)) continue;
+      const guarded = direct.some((other) =>
+        other !== sync && (responds(other.then) || responds(other.otherwise))
+      );
+      if (!guarded) {
+        issues.push({
+          severity: "warning",
+          route: path,
+          message: `requests filtered out by the \`where\` of ${sync.sync} ` +
+            `get no response.`,
+        });
+      }
+    }
+
+    // Actions whose outcome is responded to, but not when it is an error
+    const fired = new Set(
+      relevant.flatMap(({ then }) => then.map(({ action }) => action)),
+    );
+    for (const action of fired) {
+      if (action === respond) continue;
+      const outcomes = relevant
+        .filter(({ then }) => responds(then))
+        .flatMap(({ when }) =>
+          when.filter((pattern) => pattern.action === action && !pattern.absent)
+        );
+      if (outcomes.length === 0) continue;
+      const handlesErrors = outcomes.some(({ output = {} }) =>
+        Object.keys(output).length === 0 || "error" in output
+      );
+      if (!handlesErrors) {
+        issues.push({
+          severity: "warning",
+          route: path,
+          message: `gets no response when ${describeAction(action)} ` +
+            `returns an error.`,
+        });
+      }
+    }
+  }
+  return issues;
+}
@@ -11,6 +11,12 @@ export const $vars = new Proxy({} as Vars, {
   },
 }) as Vars;
 
+/**
+ * Variable bound to the error message in the `catch` and `compensate`
+ * clauses of a sync.
+ */
+export const caught = Symbol("caught");
+
 // Destructuring binds new symbols with property names
 if (import.meta.main) {
   const { user, post } = $vars;
@@ -0,0 +1,33 @@
+/**
+ * Prints the history of a flow recorded in the action journal, as JSON:
+ *
+ *   deno task flow <flow id>
+ *
+ * Flows are read from the action journal in MongoDB, which keeps them for
+ * 10 minutes after they complete. Each action lists the sync that fired it
+ * and the actions it was caused by; `deno task graph --flow <flow id>` draws
+ * the same chain as a graph.
+ */
+import * as concepts from "@concepts";
+import { MongoActionJournal } from "@engine";
+
+async function main() {
+  const [flow] = Deno.args;
+  if (flow === undefined) {
+    throw new Error("Expected a flow id: deno task flow <flow id>");
+  }
+  const history = await new MongoActionJournal(concepts.db).getFlow(flow);
+  if (history === undefined) {
+    throw new Error(`No recorded flow ${flow}.`);
+  }
+  console.log(JSON.stringify(history, null, 2));
+}
+
+try {
+  await main();
+} catch (e) {
+  console.error("Error reading flow:", e instanceof Error ? e.message : e);
+  Deno.exitCode = 1;
+} finally {
+  await concepts.client.close();
+}
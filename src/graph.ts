@@ -0,0 +1,86 @@
+/**
+ * Prints a graph of the registered synchronizations linking concept
+ * actions, or the causal chain of a recorded flow, as a Mermaid flowchart
+ * or a Graphviz DOT digraph:
+ *
+ *   deno task graph                                 # every sync, as Mermaid
+ *   deno task graph --format dot --out syncs.dot    # every sync, as DOT
+ *   deno task graph --flow <flow id>                # a flow from the journal
+ *   deno task graph --trace backend-trace.txt --index 2
+ *
+ * Flows are read from the action journal in MongoDB, which keeps them for
+ * 10 minutes after they complete. Flows of a console trace, in which the
+ * syncs are not recorded, are replayed against the current syncs to find
+ * the causes of each action.
+ */
+import { parseArgs } from "jsr:@std/cli/parse-args";
+import * as concepts from "@concepts";
+import {
+  flowGraph,
+  Graph,
+  GraphFormat,
+  Logging,
+  MongoActionJournal,
+  parseTrace,
+  renderGraph,
+  replayFlow,
+  syncGraph,
+} from "@engine";
+import { loadSyncFiles } from "@utils/syncFiles.ts";
+import { DECLARATIVE_SYNCS_DIR, declarativeOptions } from "./syncs/declarative.ts";
+import syncs from "@syncs";
+
+const flags = parseArgs(Deno.args, {
+  string: ["format", "flow", "trace", "index", "out"],
+  default: { format: "mermaid", index: "0" },
+});
+
+// Requests are told apart by their path
+const split = { "Requesting.request": "path" };
+
+async function main() {
+  const { Engine } = concepts;
+  Engine.logging = Logging.OFF;
+  Engine.register(syncs);
+  Engine.register(await loadSyncFiles(DECLARATIVE_SYNCS_DIR, concepts, declarativeOptions));
+
+  let graph: Graph;
+  if (flags.flow !== undefined) {
+    const history = await new MongoActionJournal(concepts.db).getFlow(flags.flow);
+    if (history === undefined) {
+      throw new Error(`No recorded flow ${flags.flow}.`);
+    }
+    graph = flowGraph(history, { split });
+  } else if (flags.trace !== undefined) {
+    const flows = parseTrace(await Deno.readTextFile(flags.trace));
+    const index = parseInt(flags.index, 10);
+    const recorded = flows[index];
+    if (recorded === undefined) {
+      throw new Error(`The trace has ${flows.length} flows, none at index ${index}.`);
+    }
+    const { actions } = await replayFlow(Engine, concepts, recorded);
+    graph = flowGraph(actions, { split });
+  } else {
+    graph = syncGraph(Engine.syncs, { split });
+  }
+
+  const output = renderGraph(graph, flags.format as GraphFormat);
+  if (flags.out !== undefined) {
+    await Deno.writeTextFile(flags.out, output);
+    console.log(`✅ Wrote graph to ${flags.out}`);
+  } else {
+    console.log(output);
+  }
+}
+
+try {
+  if (flags.format !== "mermaid" && flags.format !== "dot") {
+    throw new Error(`Unknown format ${flags.format}, expected mermaid or dot.`);
+  }
+  await main();
+} catch (e) {
+  console.error("Error generating graph:", e instanceof Error ? e.message : e);
+  Deno.exitCode = 1;
+} finally {
+  await concepts.client.close();
+}
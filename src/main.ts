@@ -9,8 +9,12 @@ import * as concepts from "@concepts";
 // import * as concepts from "@test-concepts";
 
 const { Engine } = concepts;
-import { Logging } from "@engine";
+import { Logging, MongoActionJournal, MongoFlowTransactions, SyncMetrics } from "@engine";
 import { startRequestingServer } from "@concepts/Requesting/RequestingConcept.ts";
+import { startScheduler } from "@concepts/Scheduler/SchedulerConcept.ts";
+import { loadSyncFiles } from "@utils/syncFiles.ts";
+import { DECLARATIVE_SYNCS_DIR, declarativeOptions } from "./syncs/declarative.ts";
+import { requestSchemas } from "./syncs/schemas.ts";
 import syncs from "@syncs";
 
 /**
@@ -21,8 +25,45 @@ import syncs from "@syncs";
  */
 Engine.logging = Logging.TRACE;
 
+// Persist the history of flows, so it can be inspected after a restart.
+Engine.Action.journal = new MongoActionJournal(concepts.db);
+
+// Count what each sync and action does, served to Prometheus by the server.
+// Flows slower than SLOW_FLOW_MS (default 2000ms) are logged.
+const metrics = new SyncMetrics({
+  slowFlow: parseInt(Deno.env.get("SLOW_FLOW_MS") ?? "2000", 10),
+});
+Engine.listen(metrics);
+
+// Run each flow in a MongoDB transaction, committed once the flow completes and
+// rolled back if an action throws or the flow is halted. Set TRANSACTIONAL_FLOWS=true
+// to enable it; transactions need a replica set, as MongoDB Atlas provides.
+if (Deno.env.get("TRANSACTIONAL_FLOWS") === "true") {
+  Engine.transactions = new MongoFlowTransactions(concepts.client);
+}
+
+// Validate synchronizations as they are registered. Set STRICT_SYNCS=true
+// to fail startup on invalid syncs rather than only warning about them.
+Engine.strict = Deno.env.get("STRICT_SYNCS") === "true";
+Engine.validation = {
+  request: concepts.Requesting.request,
+  respond: concepts.Requesting.respond,
+};
+
 // Register synchronizations
 Engine.register(syncs);
 
-// Start a server to provide the Requesting concept with external/system actions.
-startRequestingServer(concepts);
+// Register declarative synchronizations
+Engine.register(await loadSyncFiles(DECLARATIVE_SYNCS_DIR, concepts, declarativeOptions));
+
+// Check that every requested path is responded to
+Engine.validate();
+
+// Schedule recurring maintenance, and fire schedules as they come due.
+await concepts.Scheduler.schedule({ name: "cleanupExpiredSessions", cron: "0 * * * *" });
+startScheduler(concepts.Scheduler);
+
+// Start a server to provide the Requesting concept with external/system actions,
+// pushing Realtime events to clients connected over WebSockets. Requests that do
+// not fit the schema of their path are answered with a 400 before they are fired.
+startRequestingServer(concepts, { metrics, realtime: concepts.Realtime, schemas: requestSchemas });
@@ -0,0 +1,104 @@
+import { GroupConversation, Requesting, Sessioning } from "@test-concepts";
+import { assertActions, assertResponse, exists } from "@engine";
+import { assertEquals, assertExists } from "jsr:@std/assert";
+import { ID } from "@utils/types.ts";
+import * as amimi from "./amimi.sync.ts";
+import * as auth from "./auth.sync.ts";
+import { syncTest } from "./testing.ts";
+
+const SEND_SYNCS = [
+  "AuthenticatedGroupSendMessage",
+  "GroupSendMessageSuccessResponse",
+  "GroupSendMessageErrorResponse",
+  "TriggerAmimiResponseInSharedChat",
+];
+
+// Registers a user in a new group conversation, answering for the agent
+async function setupConversation(name: string) {
+  const { user, session } = await Sessioning.register({ email: `${name}@example.com`, password: "password123", name }) as { user: ID; session: string };
+  const created = await GroupConversation.createGroupConversation({ participants: [user] });
+  const conversationId = (created as { conversation: { conversationId: string } }).conversation.conversationId;
+  return { user, session, conversationId };
+}
+
+const agentReply = {
+  getAgentResponse: ({ contextPrompt }: { contextPrompt: string }) => ({
+    status: "success",
+    message: { content: `You said: ${contextPrompt}`, isFromAgent: true },
+  }),
+};
+
+syncTest("Sync: Mentioning @Amimi triggers an agent response", async (harness) => {
+  harness.use({ ...auth, ...amimi }, SEND_SYNCS);
+  harness.fake(GroupConversation, agentReply);
+  const { user, session, conversationId } = await setupConversation("erin");
+
+  const result = await harness.request({
+    path: "/GroupConversation/sendMessage",
+    session,
+    conversationId,
+    sender: user,
+    content: "@Amimi plan our weekend",
+  });
+  assertResponse(result, { status: "success", "message.content": "@Amimi plan our weekend" });
+  // The agent response runs alongside the response, in either order
+  const agent = result.actions.find(({ action }) => action === "GroupConversation.getAgentResponse");
+  assertExists(agent);
+  assertEquals(agent.input, { conversationId, contextPrompt: "plan our weekend" });
+  assertEquals(agent.sync, "TriggerAmimiResponseInSharedChat");
+});
+
+syncTest("Sync: Messages without a mention get no agent response", async (harness) => {
+  harness.use({ ...auth, ...amimi }, SEND_SYNCS);
+  harness.fake(GroupConversation, agentReply);
+  const { user, session, conversationId } = await setupConversation("frank");
+
+  const result = await harness.request({
+    path: "/GroupConversation/sendMessage",
+    session,
+    conversationId,
+    sender: user,
+    content: "just us",
+  });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "GroupConversation.sendMessage", output: { status: "success" } },
+    { action: "Requesting.respond", input: { message: exists() } },
+  ]);
+});
+
+syncTest("Sync: The sendMessage response does not wait for the agent response", async (harness) => {
+  harness.use({ ...auth, ...amimi }, SEND_SYNCS);
+  let finished = false;
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => release = resolve);
+  harness.fake(GroupConversation, {
+    getAgentResponse: async (input: { contextPrompt: string }) => {
+      await released;
+      finished = true;
+      return agentReply.getAgentResponse(input);
+    },
+  });
+  const { user, session, conversationId } = await setupConversation("gina");
+
+  // The server reads the response from a stream, as the request only returns once its flow has
+  const stream = "stream-gina";
+  const [{ events, abort }] = await Requesting._openStream({ stream });
+  const flow = harness.request({
+    path: "/GroupConversation/sendMessage",
+    session,
+    conversationId,
+    sender: user,
+    content: "@Amimi any ideas?",
+    stream,
+  });
+  const { value: first } = await events.next();
+  assertEquals(first?.event, "response");
+  assertEquals(finished, false);
+
+  release();
+  const result = await flow;
+  abort();
+  assertEquals(finished, true);
+  assertExists(result.actions.find(({ action }) => action === "GroupConversation.getAgentResponse"));
+});
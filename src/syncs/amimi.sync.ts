@@ -4,28 +4,17 @@
  */
 
 import { GroupConversation, Requesting } from "@concepts";
-import { actions, Sync } from "@engine";
+import { actions, regex, Sync } from "@engine";
 
 // When message contains @Amimi, auto-trigger agent response
-export const TriggerAmimiResponseInSharedChat: Sync = ({ request, status, message, content, conversationId, contextPrompt }) => ({
+export const TriggerAmimiResponseInSharedChat: Sync = ({ request, content, conversationId, contextPrompt }) => ({
   when: actions(
-    [Requesting.request, { path: "/GroupConversation/sendMessage", content, conversationId }, { request }],
-    [GroupConversation.sendMessage, {}, { status, message }]
+    [Requesting.request, { path: "/GroupConversation/sendMessage", conversationId }, { request }],
+    [GroupConversation.sendMessage, {}, { status: "success", "message.content": regex(/@Amimi/, content) }]
   ),
   where: (frames) => {
-    return frames.filter(($) => {
-      const msgStatus = $[status];
-      const rawContent = $[content] as string | undefined;
-      const includesMention = typeof rawContent === "string" && rawContent.includes("@Amimi");
-
-      if (msgStatus === "success" && includesMention) {
-        console.log(`[Amimi Sync] Detected @Amimi mention in shared chat message: "${rawContent}"`);
-        return true;
-      }
-
-      return false;
-    }).map(($) => {
-      const rawContent = String($[content] ?? "");
+    return frames.map(($) => {
+      const rawContent = String($[content]);
       const cleanedPrompt = rawContent.replace("@Amimi", "").trim() || "General conversation";
       const convId = String($[conversationId]);
 
@@ -41,6 +30,7 @@ export const TriggerAmimiResponseInSharedChat: Sync = ({ request, status, messag
   then: actions([
     GroupConversation.getAgentResponse,
     { conversationId, contextPrompt }
-  ])
+  ]),
+  // The agent response is slow, so do not hold up the sendMessage response
+  concurrent: true
 });
-
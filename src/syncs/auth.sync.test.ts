@@ -0,0 +1,84 @@
+import { Pairing, Sessioning } from "@test-concepts";
+import { assertActions, assertResponse, exists } from "@engine";
+import { assertEquals } from "jsr:@std/assert";
+import * as auth from "./auth.sync.ts";
+import { syncTest } from "./testing.ts";
+
+const PAIRING_SYNCS = [
+  "RejectInvalidPairingSession",
+  "AuthenticatedGenerateCode",
+  "GenerateCodeResponse",
+  "GenerateCodeError",
+  "AuthenticatedAcceptPairing",
+  "AcceptPairingResponse",
+  "AcceptPairingError",
+  "AuthenticatedIsPaired",
+  "IsPairedResponse",
+];
+
+async function registerUser(name: string) {
+  const result = await Sessioning.register({ email: `${name}@example.com`, password: "password123", name });
+  return result as { user: string; session: string };
+}
+
+// ===== OPERATIONAL PRINCIPLE TEST =====
+
+syncTest("Principle: Two users pair through authenticated requests", async (harness) => {
+  harness.use(auth, PAIRING_SYNCS);
+  const alice = await registerUser("alice");
+  const bob = await registerUser("bob");
+
+  // 1. Alice generates a pairing code with her session
+  const generated = await harness.request({ path: "/Pairing/generateCode", session: alice.session });
+  assertActions(generated, [
+    "Requesting.request",
+    { action: "Pairing.generateCode", input: { user: alice.user }, sync: "AuthenticatedGenerateCode" },
+    { action: "Requesting.respond", sync: "GenerateCodeResponse" },
+  ]);
+  assertResponse(generated, { code: exists() });
+
+  // 2. Bob accepts the code with his session
+  const { code } = generated.response as { code: string };
+  const accepted = await harness.request({ path: "/Pairing/acceptPairing", session: bob.session, code });
+  assertActions(accepted, ["Requesting.request", "Pairing.acceptPairing", "Requesting.respond"]);
+  assertResponse(accepted, { pair: exists() });
+
+  // 3. Both are now paired
+  const paired = await harness.request({ path: "/Pairing/isPaired", session: alice.session });
+  assertResponse(paired, { isPaired: true });
+});
+
+// ===== SYNC TESTS =====
+
+syncTest("Sync: Pairing requests with an invalid session are rejected", async (harness) => {
+  harness.use(auth, PAIRING_SYNCS);
+
+  const result = await harness.request({ path: "/Pairing/generateCode", session: "expired" });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Requesting.respond", sync: "RejectInvalidPairingSession" },
+  ]);
+  assertEquals(result.response, { error: "Invalid or expired session" });
+});
+
+syncTest("Sync: Pairing errors are passed on in the response", async (harness) => {
+  harness.use(auth, PAIRING_SYNCS);
+  const carol = await registerUser("carol");
+
+  const result = await harness.request({ path: "/Pairing/acceptPairing", session: carol.session, code: "NOCODE" });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Pairing.acceptPairing", output: { error: exists() } },
+    { action: "Requesting.respond", sync: "AcceptPairingError" },
+  ]);
+  assertResponse(result, { error: exists() });
+});
+
+syncTest("Sync: Faked concepts stand in for the real ones", async (harness) => {
+  harness.use(auth, PAIRING_SYNCS);
+  harness.fake(Pairing, { isPaired: () => ({ isPaired: true }) });
+  const dave = await registerUser("dave");
+
+  const result = await harness.request({ path: "/Pairing/isPaired", session: dave.session });
+  assertResponse(result, { isPaired: true });
+});
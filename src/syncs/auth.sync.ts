@@ -3,269 +3,155 @@
  * These syncs validate user sessions before allowing access to protected endpoints.
  */
 
-import { Sessioning, Requesting, Pairing, ConversationalAgent, GroupConversation } from "@concepts";
-import { actions, Sync, Frames } from "@engine";
+import { Sessioning, Requesting, Pairing, GroupConversation } from "@concepts";
+import { absent, actions, invoke, on, path, Sync } from "@engine";
 
-// ===== PAIRING AUTHENTICATION =====
+// Response for authenticated paths when the session does not resolve to a user
+const INVALID_SESSION = "Invalid or expired session";
 
-export const AuthenticatedGenerateCode: Sync = ({ request, session, user }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/Pairing/generateCode", session },
-    { request }
-  ]),
-  where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
-  },
-  then: actions([Pairing.generateCode, { user }])
-});
-
-export const GenerateCodeResponse: Sync = ({ request, code }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/generateCode" }, { request }],
-    [Pairing.generateCode, {}, { code }]
-  ),
-  then: actions([Requesting.respond, { request, code }])
-});
-
-export const GenerateCodeError: Sync = ({ request, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/generateCode" }, { request }],
-    [Pairing.generateCode, {}, { error }]
-  ),
-  then: actions([Requesting.respond, { request, error }])
-});
+// ===== SESSION GUARDS =====
 
-export const AuthenticatedAcceptPairing: Sync = ({ request, session, user, code }) => ({
+// Responds to requests for any Pairing action whose session is invalid
+export const RejectInvalidPairingSession: Sync = ({ request, session, user }) => ({
   when: actions([
     Requesting.request,
-    { path: "/Pairing/acceptPairing", session, code },
+    { path: path("/Pairing/*"), session },
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    const valid = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    return frames.filter(($) => !valid.some((frame) => frame[request] === $[request]));
   },
-  then: actions([Pairing.acceptPairing, { user, code }])
+  then: actions([Requesting.respond, { request, error: INVALID_SESSION }])
 });
 
-export const AcceptPairingResponse: Sync = ({ request, pair }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/acceptPairing" }, { request }],
-    [Pairing.acceptPairing, {}, { pair }]
-  ),
-  then: actions([Requesting.respond, { request, pair }])
-});
+// Concepts whose responses report failure through a status
+const STATUS_CONCEPTS = ["ConversationalAgent", "GroupConversation"];
 
-export const AcceptPairingError: Sync = ({ request, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/acceptPairing" }, { request }],
-    [Pairing.acceptPairing, {}, { error }]
-  ),
-  then: actions([Requesting.respond, { request, error }])
-});
-
-export const AuthenticatedDissolvePair: Sync = ({ request, session, user, pair }) => ({
+// Responds to requests for any agent or group action whose session is invalid
+export const RejectInvalidAgentSession: Sync = ({ request, concept, session, user }) => ({
   when: actions([
     Requesting.request,
-    { path: "/Pairing/dissolvePair", session, pair },
+    { path: path("/:concept/*", { concept }), session },
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    frames = frames.filter(($) => STATUS_CONCEPTS.includes($[concept] as string));
+    const valid = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    return frames.filter(($) => !valid.some((frame) => frame[request] === $[request]));
   },
-  then: actions([Pairing.dissolvePair, { pair }])
+  then: actions([Requesting.respond, { request, status: "error", error: INVALID_SESSION }])
 });
 
-export const DissolvePairResponse: Sync = ({ request }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/dissolvePair" }, { request }],
-    [Pairing.dissolvePair, {}, {}]
-  ),
-  then: actions([Requesting.respond, { request }])
-});
+// ===== PAIRING AUTHENTICATION =====
+// Typed patterns: fields are checked against the Pairing action signatures
 
-export const AuthenticatedGetPair: Sync = ({ request, session, user }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/Pairing/getPair", session },
-    { request }
-  ]),
+export const AuthenticatedGenerateCode: Sync = ({ request, session, user }) => ({
+  when: actions(on(Requesting.request, { path: "/Pairing/generateCode", session }, { request })),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([Pairing.getPair, { user }])
-});
-
-export const GetPairResponse: Sync = ({ request, pair, sharedConversationId, partner }) => ({
-  when: actions(
-    [Requesting.request, { path: "/Pairing/getPair" }, { request }],
-    [Pairing.getPair, {}, { pair, sharedConversationId, partner }]
-  ),
-  then: actions([Requesting.respond, { request, pair, sharedConversationId, partner }])
+  then: actions(invoke(Pairing.generateCode, { user }))
 });
 
-export const GetPairError: Sync = ({ request, error }) => ({
+export const GenerateCodeResponse: Sync = ({ request, code }) => ({
   when: actions(
-    [Requesting.request, { path: "/Pairing/getPair" }, { request }],
-    [Pairing.getPair, {}, { error }]
+    on(Requesting.request, { path: "/Pairing/generateCode" }, { request }),
+    on(Pairing.generateCode, {}, { code })
   ),
-  then: actions([Requesting.respond, { request, error }])
+  then: actions(invoke(Requesting.respond, { request, code }))
 });
 
-export const AuthenticatedIsPaired: Sync = ({ request, session, user }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/Pairing/isPaired", session },
-    { request }
-  ]),
-  where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
-  },
-  then: actions([Pairing.isPaired, { user }])
-});
-
-export const IsPairedResponse: Sync = ({ request, isPaired }) => ({
+export const GenerateCodeError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/Pairing/isPaired" }, { request }],
-    [Pairing.isPaired, {}, { isPaired }]
+    on(Requesting.request, { path: "/Pairing/generateCode" }, { request }),
+    on(Pairing.generateCode, {}, { error })
   ),
-  then: actions([Requesting.respond, { request, isPaired }])
+  then: actions(invoke(Requesting.respond, { request, error }))
 });
 
-// ===== CONVERSATIONAL AGENT AUTHENTICATION =====
-
-export const AuthenticatedCreateConversation: Sync = ({ request, session, user, userId, context }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/ConversationalAgent/createConversation", session, userId, context },
-    { request }
-  ]),
+export const AuthenticatedAcceptPairing: Sync = ({ request, session, user, code }) => ({
+  when: actions(on(Requesting.request, { path: "/Pairing/acceptPairing", session, code }, { request })),
   where: async (frames) => {
-    const authFrames = await frames.query(Sessioning._getUserBySession, { session }, { user });
-    if (authFrames.length === 0) {
-      // Authentication failed - return error frame to trigger error response sync
-      const originalFrame = frames[0];
-      return new Frames({ ...originalFrame, error: "Invalid or expired session", status: "error" });
-    }
-    // Auth succeeded - filter out any error frames and return only success frames with user
-    return authFrames.filter(($) => !$.status || $.status !== "error");
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([ConversationalAgent.createConversation, { userId: user, context }])
+  then: actions(invoke(Pairing.acceptPairing, { user, code }))
 });
 
-// Separate response syncs for createConversation success and error
-export const CreateConversationSuccessResponse: Sync = ({ request, status, conversation }) => ({
+export const AcceptPairingResponse: Sync = ({ request, pair }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/createConversation" }, { request }],
-    [ConversationalAgent.createConversation, {}, { status, conversation }] // Match success case
+    on(Requesting.request, { path: "/Pairing/acceptPairing" }, { request }),
+    on(Pairing.acceptPairing, {}, { pair })
   ),
-  then: actions([Requesting.respond, { request, status, conversation }])
+  then: actions(invoke(Requesting.respond, { request, pair }))
 });
 
-export const CreateConversationErrorResponse: Sync = ({ request, status, error }) => ({
+export const AcceptPairingError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/createConversation" }, { request }],
-    [ConversationalAgent.createConversation, {}, { status, error }] // Match error case
+    on(Requesting.request, { path: "/Pairing/acceptPairing" }, { request }),
+    on(Pairing.acceptPairing, {}, { error })
   ),
-  then: actions([Requesting.respond, { request, status, error }])
+  then: actions(invoke(Requesting.respond, { request, error }))
 });
 
-export const CreateConversationAuthError: Sync = ({ request, error, status }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/ConversationalAgent/createConversation" },
-    { request }
-  ]),
-  where: (frames) => frames.filter(($) => $.status === "error" && $.error),
-  then: actions([Requesting.respond, { request, status, error }])
-});
-
-export const AuthenticatedSendUserMessage: Sync = ({ request, session, user, conversationId, content }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/ConversationalAgent/sendUserMessage", session, conversationId, content },
-    { request }
-  ]),
+export const AuthenticatedDissolvePair: Sync = ({ request, session, user, pair }) => ({
+  when: actions(on(Requesting.request, { path: "/Pairing/dissolvePair", session, pair }, { request })),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([ConversationalAgent.sendUserMessage, { conversationId, content }])
+  then: actions(invoke(Pairing.dissolvePair, { pair }))
 });
 
-// Separate response syncs for sendUserMessage
-export const SendUserMessageSuccessResponse: Sync = ({ request, status, message }) => ({
-  when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/sendUserMessage" }, { request }],
-    [ConversationalAgent.sendUserMessage, {}, { status, message }] // Match success case
-  ),
-  then: actions([Requesting.respond, { request, status, message }])
-});
-
-export const SendUserMessageErrorResponse: Sync = ({ request, status, error }) => ({
+export const DissolvePairResponse: Sync = ({ request }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/sendUserMessage" }, { request }],
-    [ConversationalAgent.sendUserMessage, {}, { status, error }] // Match error case
+    on(Requesting.request, { path: "/Pairing/dissolvePair" }, { request }),
+    on(Pairing.dissolvePair, {}, {})
   ),
-  then: actions([Requesting.respond, { request, status, error }])
+  then: actions(invoke(Requesting.respond, { request }))
 });
 
-export const AuthenticatedGetAgentResponse: Sync = ({ request, session, user, conversationId, userMessageContent }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/ConversationalAgent/getAgentResponse", session, conversationId, userMessageContent },
-    { request }
-  ]),
+export const AuthenticatedGetPair: Sync = ({ request, session, user }) => ({
+  when: actions(on(Requesting.request, { path: "/Pairing/getPair", session }, { request })),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([ConversationalAgent.getAgentResponse, { conversationId, userMessageContent }])
+  then: actions(invoke(Pairing.getPair, { user }))
 });
 
-// Separate response syncs for getAgentResponse
-export const GetAgentResponseSuccessResponse: Sync = ({ request, status, message }) => ({
+export const GetPairResponse: Sync = ({ request, pair, sharedConversationId, partner }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/getAgentResponse" }, { request }],
-    [ConversationalAgent.getAgentResponse, {}, { status, message }] // Match success case
+    on(Requesting.request, { path: "/Pairing/getPair" }, { request }),
+    on(Pairing.getPair, {}, { pair, sharedConversationId, partner })
   ),
-  then: actions([Requesting.respond, { request, status, message }])
+  then: actions(invoke(Requesting.respond, { request, pair, sharedConversationId, partner }))
 });
 
-export const GetAgentResponseErrorResponse: Sync = ({ request, status, error }) => ({
+export const GetPairError: Sync = ({ request, error }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/getAgentResponse" }, { request }],
-    [ConversationalAgent.getAgentResponse, {}, { status, error }] // Match error case
+    on(Requesting.request, { path: "/Pairing/getPair" }, { request }),
+    on(Pairing.getPair, {}, { error })
   ),
-  then: actions([Requesting.respond, { request, status, error }])
+  then: actions(invoke(Requesting.respond, { request, error }))
 });
 
-export const AuthenticatedGetHistory: Sync = ({ request, session, user, conversationId }) => ({
-  when: actions([
-    Requesting.request,
-    { path: "/ConversationalAgent/getHistory", session, conversationId },
-    { request }
-  ]),
+export const AuthenticatedIsPaired: Sync = ({ request, session, user }) => ({
+  when: actions(on(Requesting.request, { path: "/Pairing/isPaired", session }, { request })),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([ConversationalAgent.getHistory, { conversationId }])
+  then: actions(invoke(Pairing.isPaired, { user }))
 });
 
-// Response sync for getHistory - separate syncs for success and error
-export const GetHistorySuccessResponse: Sync = ({ request, status, messages }) => ({
+export const IsPairedResponse: Sync = ({ request, isPaired }) => ({
   when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/getHistory" }, { request }],
-    [ConversationalAgent.getHistory, {}, { status, messages }] // Match success case
+    on(Requesting.request, { path: "/Pairing/isPaired" }, { request }),
+    on(Pairing.isPaired, {}, { isPaired })
   ),
-  then: actions([Requesting.respond, { request, status, messages }])
+  then: actions(invoke(Requesting.respond, { request, isPaired }))
 });
 
-export const GetHistoryErrorResponse: Sync = ({ request, status, error }) => ({
-  when: actions(
-    [Requesting.request, { path: "/ConversationalAgent/getHistory" }, { request }],
-    [ConversationalAgent.getHistory, {}, { status, error }] // Match error case
-  ),
-  then: actions([Requesting.respond, { request, status, error }])
-});
+// ===== CONVERSATIONAL AGENT AUTHENTICATION =====
+// Defined declaratively in declarative/conversationalAgent.yaml
 
 // ===== GROUP CONVERSATION AUTHENTICATION =====
 
@@ -276,7 +162,7 @@ export const AuthenticatedCreateGroupConversation: Sync = ({ request, session, u
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
   then: actions([GroupConversation.createGroupConversation, { participants, context }])
 });
@@ -305,7 +191,7 @@ export const AuthenticatedGroupSendMessage: Sync = ({ request, session, user, co
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
   then: actions([GroupConversation.sendMessage, { conversationId, sender, content }])
 });
@@ -316,7 +202,9 @@ export const GroupSendMessageSuccessResponse: Sync = ({ request, status, message
     [Requesting.request, { path: "/GroupConversation/sendMessage" }, { request }],
     [GroupConversation.sendMessage, {}, { status, message }] // Match success case
   ),
-  then: actions([Requesting.respond, { request, status, message }])
+  then: actions([Requesting.respond, { request, status, message }]),
+  // Responds alongside any concurrent agent response triggered by the message
+  concurrent: true
 });
 
 export const GroupSendMessageErrorResponse: Sync = ({ request, status, error }) => ({
@@ -334,7 +222,7 @@ export const AuthenticatedGroupGetAgentResponse: Sync = ({ request, session, use
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
   then: actions([GroupConversation.getAgentResponse, { conversationId, contextPrompt }])
 });
@@ -356,6 +244,15 @@ export const GroupGetAgentResponseErrorResponse: Sync = ({ request, status, erro
   then: actions([Requesting.respond, { request, status, error }])
 });
 
+// Streams each chunk of Amimi's reply to clients reading the response as server-sent events
+export const GroupGetAgentResponseStream: Sync = ({ request, chunk }) => ({
+  when: actions(
+    [Requesting.request, { path: "/GroupConversation/getAgentResponse" }, { request }],
+    [GroupConversation.getAgentResponse, {}, { chunk }] // Match partial output
+  ),
+  then: actions([Requesting.stream, { request, chunk }])
+});
+
 export const AuthenticatedGetUserInfo: Sync = ({ request, session, user, name }) => ({
   when: actions([
     Requesting.request,
@@ -363,9 +260,10 @@ export const AuthenticatedGetUserInfo: Sync = ({ request, session, user, name })
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
-  then: actions([Sessioning.getUserInfo, { session }, { name }])
+  then: actions([Sessioning.getUserInfo, { session }, { name }]),
+  otherwise: actions([Requesting.respond, { request, error: INVALID_SESSION }])
 });
 
 export const GetUserInfoResponse: Sync = ({ request, user, name }) => ({
@@ -384,6 +282,35 @@ export const GetUserInfoErrorResponse: Sync = ({ request, error }) => ({
   then: actions([Requesting.respond, { request, error }])
 });
 
+export const AuthenticatedLogout: Sync = ({ request, session, user }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Sessioning/logout", session },
+    { request }
+  ]),
+  where: (frames) => frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true }),
+  then: actions([Sessioning.logout, { session }]),
+  otherwise: actions([Requesting.respond, { request, error: INVALID_SESSION }])
+});
+
+// Logging out outputs nothing on success, so it is told apart by the absence of an error
+export const LogoutResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sessioning/logout" }, { request }],
+    [Sessioning.logout, {}, {}],
+    absent([Sessioning.logout, {}, { error }])
+  ),
+  then: actions([Requesting.respond, { request }])
+});
+
+export const LogoutErrorResponse: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Sessioning/logout" }, { request }],
+    [Sessioning.logout, {}, { error }]
+  ),
+  then: actions([Requesting.respond, { request, error }])
+});
+
 export const AuthenticatedGroupGetHistory: Sync = ({ request, session, user, conversationId }) => ({
   when: actions([
     Requesting.request,
@@ -391,7 +318,7 @@ export const AuthenticatedGroupGetHistory: Sync = ({ request, session, user, con
     { request }
   ]),
   where: async (frames) => {
-    return frames.query(Sessioning._getUserBySession, { session }, { user });
+    return frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
   },
   then: actions([GroupConversation.getHistory, { conversationId }])
 });
@@ -0,0 +1,16 @@
+/**
+ * Configuration of the declarative syncs in src/syncs/declarative, whose
+ * endpoints authenticate by session.
+ */
+import type { DefinitionOptions } from "@engine";
+
+export const DECLARATIVE_SYNCS_DIR = "src/syncs/declarative";
+
+export const declarativeOptions: DefinitionOptions = {
+  session: {
+    query: "Sessioning._getUserBySession",
+    input: { session: "$session" },
+    output: { user: "$user" },
+    cache: true,
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * Flow synchronizations
+ * These syncs answer requests whose flow the engine halted for exceeding its limits.
+ */
+
+import { Engine, Requesting } from "@concepts";
+import { actions, Sync } from "@engine";
+
+// Respond with the error instead of leaving the request to time out
+export const RespondToHaltedFlow: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, {}, { request }],
+    [Engine.Flow.error, {}, { error }]
+  ),
+  then: actions([Requesting.respond, { request, status: "error", error }])
+});
@@ -0,0 +1,147 @@
+import { GroupConversation, Realtime, Sessioning } from "@test-concepts";
+import { assertActions, assertResponse } from "@engine";
+import { assertEquals } from "jsr:@std/assert";
+import { ID } from "@utils/types.ts";
+import * as auth from "./auth.sync.ts";
+import * as realtime from "./realtime.sync.ts";
+import { syncTest } from "./testing.ts";
+
+const SUBSCRIBE_SYNCS = [
+  "RejectInvalidRealtimeSession",
+  "RejectForeignRealtimeConnection",
+  "AuthenticatedRealtimeSubscribe",
+  "RejectRealtimeSubscribeNonParticipant",
+  "RealtimeSubscribeResponse",
+  "RealtimeSubscribeError",
+];
+
+// Registers a user in a new group conversation, connected over a fresh connection
+async function setupConnection(name: string) {
+  const { user, session } = await Sessioning.register({ email: `${name}@example.com`, password: "password123", name }) as { user: ID; session: string };
+  const created = await GroupConversation.createGroupConversation({ participants: [user] });
+  const conversationId = (created as { conversation: { conversationId: string } }).conversation.conversationId;
+  const connection = `connection-${name}` as ID;
+  await Realtime.connect({ connection, user });
+  return { user, session, conversationId, connection };
+}
+
+// ===== OPERATIONAL PRINCIPLE TEST =====
+
+syncTest("Principle: Participants following a conversation receive its new messages", async (harness) => {
+  harness.use({ ...auth, ...realtime }, [
+    ...SUBSCRIBE_SYNCS,
+    "AuthenticatedGroupSendMessage",
+    "GroupSendMessageSuccessResponse",
+    "GroupSendMessageErrorResponse",
+    "PublishGroupMessage",
+  ]);
+  const { user, session, conversationId, connection } = await setupConnection("grace");
+  const [{ events }] = await Realtime._listen({ connection });
+
+  // 1. The participant subscribes to the conversation over their connection
+  const subscribed = await harness.request({ path: "/Realtime/subscribe", session, connection, conversationId });
+  assertActions(subscribed, [
+    "Requesting.request",
+    { action: "Realtime.subscribe", input: { connection, topic: conversationId }, sync: "AuthenticatedRealtimeSubscribe" },
+    { action: "Requesting.respond", sync: "RealtimeSubscribeResponse" },
+  ]);
+  assertResponse(subscribed, { conversationId });
+
+  // 2. A message sent to the conversation is published to it
+  const sent = await harness.request({ path: "/GroupConversation/sendMessage", session, conversationId, sender: user, content: "Dinner at 7?" });
+  const published = sent.actions.find(({ action }) => action === "Realtime.publish");
+  assertEquals(published?.sync, "PublishGroupMessage");
+  assertEquals(published?.output, { topic: conversationId, delivered: 1 });
+
+  // 3. The connection receives the message as an event
+  await Realtime.disconnect({ connection });
+  const received = [];
+  for await (const event of events) received.push(event);
+  assertEquals(received.map(({ event, topic }) => [event, topic]), [["message", conversationId]]);
+  assertEquals((received[0].data.message as { content: string }).content, "Dinner at 7?");
+});
+
+// ===== SYNC TESTS =====
+
+syncTest("Sync: Users cannot follow conversations they do not participate in", async (harness) => {
+  harness.use({ ...auth, ...realtime }, SUBSCRIBE_SYNCS);
+  const henry = await setupConnection("henry");
+  const iris = await setupConnection("iris");
+
+  const result = await harness.request({
+    path: "/Realtime/subscribe",
+    session: iris.session,
+    connection: iris.connection,
+    conversationId: henry.conversationId,
+  });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Requesting.respond", sync: "RejectRealtimeSubscribeNonParticipant" },
+  ]);
+  assertEquals(result.response, { error: "Not a participant of this conversation" });
+  assertEquals(await Realtime._getSubscribers({ topic: henry.conversationId }), []);
+  await Realtime.disconnect({ connection: henry.connection });
+  await Realtime.disconnect({ connection: iris.connection });
+});
+
+syncTest("Sync: Realtime requests with an invalid session are rejected", async (harness) => {
+  harness.use({ ...auth, ...realtime }, SUBSCRIBE_SYNCS);
+
+  const result = await harness.request({ path: "/Realtime/subscribe", session: "expired", connection: "connection-none", conversationId: "none" });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Requesting.respond", sync: "RejectInvalidRealtimeSession" },
+  ]);
+  assertEquals(result.response, { error: "Invalid or expired session" });
+});
+
+syncTest("Sync: Connections are bound to the user of their session", async (harness) => {
+  harness.use({ ...auth, ...realtime }, ["RejectInvalidRealtimeSession", "AuthenticatedRealtimeConnect", "RealtimeConnectResponse", "RealtimeConnectError"]);
+  const { user, session } = await Sessioning.register({ email: "jade@example.com", password: "password123", name: "jade" }) as { user: ID; session: string };
+
+  const result = await harness.request({ path: "/Realtime/connect", session, connection: "connection-jade" });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Realtime.connect", input: { connection: "connection-jade", user }, sync: "AuthenticatedRealtimeConnect" },
+    { action: "Requesting.respond", sync: "RealtimeConnectResponse" },
+  ]);
+  assertResponse(result, { connection: "connection-jade" });
+  assertEquals(await Realtime._getConnections({ user }), [{ connection: "connection-jade" as ID }]);
+  await Realtime.disconnect({ connection: "connection-jade" as ID });
+});
+
+syncTest("Sync: Users cannot subscribe or unsubscribe connections of other users", async (harness) => {
+  harness.use({ ...auth, ...realtime }, [...SUBSCRIBE_SYNCS, "AuthenticatedRealtimeUnsubscribe"]);
+  const kim = await setupConnection("kim");
+  const leo = await setupConnection("leo");
+  await Realtime.subscribe({ connection: leo.connection, topic: leo.conversationId });
+
+  for (const path of ["/Realtime/subscribe", "/Realtime/unsubscribe"]) {
+    const result = await harness.request({ path, session: kim.session, connection: leo.connection, conversationId: leo.conversationId });
+    assertActions(result, [
+      "Requesting.request",
+      { action: "Requesting.respond", sync: "RejectForeignRealtimeConnection" },
+    ]);
+    assertEquals(result.response, { error: "Not a connection of this user" });
+  }
+  assertEquals(await Realtime._getSubscribers({ topic: leo.conversationId }), [{ connection: leo.connection }]);
+  await Realtime.disconnect({ connection: kim.connection });
+  await Realtime.disconnect({ connection: leo.connection });
+});
+
+syncTest("Sync: Logging out ends the connections of the user", async (harness) => {
+  harness.use({ ...auth, ...realtime }, ["DisconnectRealtimeOnLogout", "AuthenticatedLogout", "LogoutResponse", "LogoutErrorResponse"]);
+  const { session, connection } = await setupConnection("mona");
+  const [{ events }] = await Realtime._listen({ connection });
+
+  const result = await harness.request({ path: "/Sessioning/logout", session });
+  assertActions(result, [
+    "Requesting.request",
+    { action: "Realtime.disconnect", input: { connection }, sync: "DisconnectRealtimeOnLogout" },
+    { action: "Sessioning.logout", sync: "AuthenticatedLogout" },
+    { action: "Requesting.respond", sync: "LogoutResponse" },
+  ]);
+  assertEquals(result.response, {});
+  for await (const _ of events) throw new Error("No events are expected");
+  assertEquals(await Realtime._listen({ connection }), []);
+});
@@ -0,0 +1,189 @@
+/**
+ * Realtime synchronizations
+ * These syncs bind each client connected over the WebSocket endpoint to the user
+ * of its session, let it follow the shared conversations the user participates in,
+ * and push each change to those conversations to the clients following them. Each
+ * conversation is a topic, named by its ID.
+ */
+
+import { GroupConversation, Realtime, Requesting, Sessioning } from "@concepts";
+import { actions, path, Sync } from "@engine";
+
+// Response for realtime requests when the session does not resolve to a user
+const INVALID_SESSION = "Invalid or expired session";
+
+// Response for realtime requests over a connection of another user
+const NOT_YOUR_CONNECTION = "Not a connection of this user";
+
+// Response for subscriptions to conversations the user does not participate in
+const NOT_A_PARTICIPANT = "Not a participant of this conversation";
+
+// ===== CONNECTIONS =====
+
+// Responds to realtime requests whose session is invalid
+export const RejectInvalidRealtimeSession: Sync = ({ request, session, user }) => ({
+  when: actions([
+    Requesting.request,
+    { path: path("/Realtime/*"), session },
+    { request }
+  ]),
+  where: async (frames) => {
+    const valid = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    return frames.filter(($) => !valid.some((frame) => frame[request] === $[request]));
+  },
+  then: actions([Requesting.respond, { request, error: INVALID_SESSION }])
+});
+
+// Binds the connection of each WebSocket to the user of the session it is opened with
+export const AuthenticatedRealtimeConnect: Sync = ({ request, session, user, connection }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Realtime/connect", session, connection },
+    { request }
+  ]),
+  where: (frames) => frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true }),
+  then: actions([Realtime.connect, { connection, user }])
+});
+
+export const RealtimeConnectResponse: Sync = ({ request, connection }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/connect" }, { request }],
+    [Realtime.connect, {}, { connection }]
+  ),
+  then: actions([Requesting.respond, { request, connection }])
+});
+
+export const RealtimeConnectError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/connect" }, { request }],
+    [Realtime.connect, {}, { error }]
+  ),
+  then: actions([Requesting.respond, { request, error }])
+});
+
+// Responds to realtime requests over a connection that the user did not open
+export const RejectForeignRealtimeConnection: Sync = ({ request, action, session, user, connection }) => ({
+  when: actions([
+    Requesting.request,
+    { path: path("/Realtime/:action", { action }), session, connection },
+    { request }
+  ]),
+  where: async (frames) => {
+    frames = frames.filter(($) => $[action] !== "connect");
+    frames = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    const owned = await frames.query(Realtime._isConnectionOf, { connection, user }, {});
+    return frames.filter(($) => !owned.some((frame) => frame[request] === $[request]));
+  },
+  then: actions([Requesting.respond, { request, error: NOT_YOUR_CONNECTION }])
+});
+
+// Ends the connections of a user who logs out, while their session still resolves to them
+export const DisconnectRealtimeOnLogout: Sync = ({ request, session, user, connection }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Sessioning/logout", session },
+    { request }
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    return frames.query(Realtime._getConnections, { user }, { connection });
+  },
+  then: actions([Realtime.disconnect, { connection }]),
+  priority: 1
+});
+
+// ===== SUBSCRIPTIONS =====
+
+export const AuthenticatedRealtimeSubscribe: Sync = ({ request, session, user, connection, conversationId }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Realtime/subscribe", session, connection, conversationId },
+    { request }
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    frames = await frames.query(Realtime._isConnectionOf, { connection, user }, {});
+    return frames.query(GroupConversation._isParticipant, { conversationId, user }, {});
+  },
+  then: actions([Realtime.subscribe, { connection, topic: conversationId }])
+});
+
+export const RejectRealtimeSubscribeNonParticipant: Sync = ({ request, session, user, connection, conversationId }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Realtime/subscribe", session, connection, conversationId },
+    { request }
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    frames = await frames.query(Realtime._isConnectionOf, { connection, user }, {});
+    const participating = await frames.query(GroupConversation._isParticipant, { conversationId, user }, {});
+    return frames.filter(($) => !participating.some((frame) => frame[request] === $[request]));
+  },
+  then: actions([Requesting.respond, { request, error: NOT_A_PARTICIPANT }])
+});
+
+export const AuthenticatedRealtimeUnsubscribe: Sync = ({ request, session, user, connection, conversationId }) => ({
+  when: actions([
+    Requesting.request,
+    { path: "/Realtime/unsubscribe", session, connection, conversationId },
+    { request }
+  ]),
+  where: async (frames) => {
+    frames = await frames.query(Sessioning._getUserBySession, { session }, { user }, { cache: true });
+    return frames.query(Realtime._isConnectionOf, { connection, user }, {});
+  },
+  then: actions([Realtime.unsubscribe, { connection, topic: conversationId }])
+});
+
+export const RealtimeSubscribeResponse: Sync = ({ request, topic }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/subscribe" }, { request }],
+    [Realtime.subscribe, {}, { topic }]
+  ),
+  then: actions([Requesting.respond, { request, conversationId: topic }])
+});
+
+export const RealtimeUnsubscribeResponse: Sync = ({ request, topic }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/unsubscribe" }, { request }],
+    [Realtime.unsubscribe, {}, { topic }]
+  ),
+  then: actions([Requesting.respond, { request, conversationId: topic }])
+});
+
+export const RealtimeSubscribeError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/subscribe" }, { request }],
+    [Realtime.subscribe, {}, { error }]
+  ),
+  then: actions([Requesting.respond, { request, error }])
+});
+
+export const RealtimeUnsubscribeError: Sync = ({ request, error }) => ({
+  when: actions(
+    [Requesting.request, { path: "/Realtime/unsubscribe" }, { request }],
+    [Realtime.unsubscribe, {}, { error }]
+  ),
+  then: actions([Requesting.respond, { request, error }])
+});
+
+// ===== CONVERSATION EVENTS =====
+
+// Pushes each new message of a conversation to the clients following it
+export const PublishGroupMessage: Sync = ({ conversationId, message }) => ({
+  when: actions([GroupConversation.sendMessage, { conversationId }, { message }]),
+  then: actions([Realtime.publish, { topic: conversationId, event: "message", message }])
+});
+
+// Pushes each reply of Amimi to the clients following the conversation
+export const PublishAgentResponse: Sync = ({ conversationId, message }) => ({
+  when: actions([GroupConversation.getAgentResponse, { conversationId }, { message }]),
+  then: actions([Realtime.publish, { topic: conversationId, event: "agentResponse", message }])
+});
+
+// Pushes the participants of a conversation whenever they change
+export const PublishParticipants: Sync = ({ conversationId, conversation }) => ({
+  when: actions([GroupConversation.addParticipant, { conversationId }, { conversation }]),
+  then: actions([Realtime.publish, { topic: conversationId, event: "participants", conversation }])
+});
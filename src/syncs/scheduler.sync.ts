@@ -0,0 +1,14 @@
+/**
+ * Scheduled synchronizations
+ * These syncs run maintenance actions when their schedules fire.
+ * Schedules are set up in main.ts.
+ */
+
+import { Scheduler, Sessioning } from "@concepts";
+import { actions, Sync } from "@engine";
+
+// Delete expired sessions each time the hourly cleanup fires
+export const CleanupExpiredSessions: Sync = () => ({
+  when: actions([Scheduler.fire, {}, { name: "cleanupExpiredSessions" }]),
+  then: actions([Sessioning.cleanupExpiredSessions, {}])
+});
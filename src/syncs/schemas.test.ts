@@ -0,0 +1,12 @@
+import { validateRequest } from "@engine";
+import { assertEquals } from "jsr:@std/assert";
+import { requestSchemas } from "./schemas.ts";
+
+// The syncs of these paths bind `context`, so a request without it would never be answered
+Deno.test("Schema: Requests to create conversations must give a context", () => {
+  for (const path of ["/ConversationalAgent/createConversation", "/GroupConversation/createGroupConversation"]) {
+    const input = { path, session: "session-1", participants: ["user-1"] };
+    assertEquals(validateRequest(requestSchemas, input), [{ field: "context", message: "is required" }]);
+    assertEquals(validateRequest(requestSchemas, { ...input, context: "" }), []);
+  }
+});
@@ -0,0 +1,91 @@
+/**
+ * Schemas of the input of the requests handled by syncs, by path. The server
+ * checks each request against the schema of its path before firing
+ * Requesting.request, and answers input that does not fit with a 400 naming
+ * the fields at fault. The fields of each schema are checked against the
+ * parameters of the concept action it is passed on to, along with the
+ * session that syncs look the user up by.
+ */
+import { type ActionInput, type RequestSchemas, schema } from "@engine";
+import type ConversationalAgentConcept from "@concepts/ConversationalAgent/ConversationalAgentConcept.ts";
+import type {
+  CreateGroupConversationParams,
+  GetAgentResponseParams,
+  GetHistoryParams,
+  SendMessageParams,
+} from "@concepts/GroupConversation/GroupConversationConcept.ts";
+import type PairingConcept from "@concepts/Pairing/PairingConcept.ts";
+
+// Requests that syncs authenticate by session
+type Authenticated<T = unknown> = Omit<T, "user" | "userId"> & { session: string };
+
+type Agent = ConversationalAgentConcept;
+
+const id = schema.string({ nonEmpty: true });
+const session = id;
+
+export const requestSchemas: RequestSchemas = {
+  // Pairing
+  "/Pairing/generateCode": schema.fields<Authenticated>()({ session }),
+  "/Pairing/acceptPairing": schema.fields<Authenticated<ActionInput<PairingConcept["acceptPairing"]>>>()({
+    session,
+    code: id,
+  }),
+  "/Pairing/dissolvePair": schema.fields<Authenticated<ActionInput<PairingConcept["dissolvePair"]>>>()({
+    session,
+    pair: id,
+  }),
+  "/Pairing/getPair": schema.fields<Authenticated>()({ session }),
+  "/Pairing/isPaired": schema.fields<Authenticated>()({ session }),
+
+  // ConversationalAgent
+  "/ConversationalAgent/createConversation": schema.fields<Authenticated<ActionInput<Agent["createConversation"]>>>()({
+    session,
+    context: schema.string(),
+  }),
+  "/ConversationalAgent/sendUserMessage": schema.fields<Authenticated<ActionInput<Agent["sendUserMessage"]>>>()({
+    session,
+    conversationId: id,
+    content: schema.string({ nonEmpty: true }),
+  }),
+  "/ConversationalAgent/getAgentResponse": schema.fields<Authenticated<ActionInput<Agent["getAgentResponse"]>>>()({
+    session,
+    conversationId: id,
+    userMessageContent: schema.string({ nonEmpty: true }),
+  }),
+  "/ConversationalAgent/getHistory": schema.fields<Authenticated<ActionInput<Agent["getHistory"]>>>()({
+    session,
+    conversationId: id,
+  }),
+
+  // GroupConversation
+  "/GroupConversation/createGroupConversation": schema.fields<Authenticated<CreateGroupConversationParams>>()({
+    session,
+    participants: schema.array(id, { nonEmpty: true }),
+    context: schema.string(),
+  }),
+  "/GroupConversation/sendMessage": schema.fields<Authenticated<SendMessageParams>>()({
+    session,
+    conversationId: id,
+    sender: id,
+    content: schema.string({ nonEmpty: true }),
+  }),
+  "/GroupConversation/getAgentResponse": schema.fields<Authenticated<GetAgentResponseParams>>()({
+    session,
+    conversationId: id,
+    contextPrompt: schema.string({ nonEmpty: true }),
+  }),
+  "/GroupConversation/getHistory": schema.fields<Authenticated<GetHistoryParams>>()({
+    session,
+    conversationId: id,
+  }),
+
+  // Realtime, whose connection is given by the server
+  "/Realtime/connect": schema.object({ session, connection: id }),
+  "/Realtime/subscribe": schema.object({ session, conversationId: id }),
+  "/Realtime/unsubscribe": schema.object({ session, conversationId: id }),
+
+  // Sessioning
+  "/Sessioning/getUserInfo": schema.fields<Authenticated>()({ session }),
+  "/Sessioning/logout": schema.fields<Authenticated>()({ session }),
+};
@@ -0,0 +1,39 @@
+/**
+ * Helpers for testing syncs, run with `deno task test:syncs`. Its import map
+ * resolves "@concepts" to the concepts of "@test-concepts", so that the
+ * syncs under test use the test database, which is reset on each run.
+ */
+import * as concepts from "@test-concepts";
+import { Engine as SyncEngine } from "@concepts";
+import { Logging, SyncHarness } from "@engine";
+
+const { Engine, Requesting } = concepts;
+Engine.logging = Logging.OFF;
+
+const harness = new SyncHarness(Engine, {
+  request: Requesting.request,
+  respond: Requesting.respond,
+});
+
+/**
+ * Declares a test of syncs, given a harness with no syncs registered and
+ * no concepts faked. The concepts share one database client for all tests,
+ * which stays open until the tests end.
+ */
+export function syncTest(name: string, fn: (harness: SyncHarness) => Promise<void>) {
+  Deno.test({
+    name,
+    sanitizeOps: false,
+    sanitizeResources: false,
+    async fn() {
+      if (SyncEngine !== Engine) {
+        throw new Error("Run sync tests with `deno task test:syncs`, so that syncs use the test concepts.");
+      }
+      try {
+        await fn(harness);
+      } finally {
+        harness.reset();
+      }
+    },
+  });
+}
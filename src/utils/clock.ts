@@ -0,0 +1,34 @@
+/**
+ * Source of the current time, so that time-dependent concepts can be
+ * tested without waiting.
+ */
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+};
+
+/**
+ * Clock that only moves when told to, for tests.
+ */
+export class FakeClock implements Clock {
+  private time: number;
+
+  constructor(start: Date | string = new Date()) {
+    this.time = new Date(start).getTime();
+  }
+
+  now() {
+    return new Date(this.time);
+  }
+
+  set(date: Date | string) {
+    this.time = new Date(date).getTime();
+  }
+
+  advance(ms: number) {
+    this.time += ms;
+  }
+}
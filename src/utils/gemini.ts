@@ -18,10 +18,23 @@ export interface GeminiResponse {
   }>;
 }
 
-export class GeminiService {
+type ConversationHistory = Array<{ isFromUser: boolean; content: string }>;
+
+/**
+ * Generates Amimi's replies, whole or streamed as chunks of text.
+ */
+export interface AgentModel {
+  generateResponse(userMessage: string, conversationHistory?: ConversationHistory, context?: string): Promise<string>;
+  generateSharedResponse(userMessage: string, conversationHistory?: ConversationHistory, context?: string): Promise<string>;
+  streamResponse(userMessage: string, conversationHistory?: ConversationHistory, context?: string): AsyncGenerator<string>;
+  streamSharedResponse(userMessage: string, conversationHistory?: ConversationHistory, context?: string): AsyncGenerator<string>;
+}
+
+export class GeminiService implements AgentModel {
   private apiKey: string;
   private model: string;
   private baseUrl: string;
+  private streamUrl: string;
 
   constructor() {
     const apiKey = Deno.env.get("GEMINI_API_KEY");
@@ -32,6 +45,7 @@ export class GeminiService {
     this.apiKey = apiKey;
     this.model = Deno.env.get("GEMINI_MODEL") || "gemini-2.5-flash";
     this.baseUrl = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`;
+    this.streamUrl = `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:streamGenerateContent`;
   }
 
   /**
@@ -47,39 +61,7 @@ export class GeminiService {
       const systemPrompt = this.buildSystemPrompt(context);
       const messages = this.buildMessageHistory(conversationHistory, userMessage);
 
-      const requestBody = {
-        contents: [
-          {
-            parts: [{ text: systemPrompt }],
-            role: "user"
-          },
-          ...messages
-        ],
-        generationConfig: {
-          temperature: 0.7,
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      };
+      const requestBody = this.buildRequestBody(systemPrompt, messages, 0.7);
 
       const response = await fetch(`${this.baseUrl}?key=${this.apiKey}`, {
         method: 'POST',
@@ -122,39 +104,8 @@ export class GeminiService {
       const systemPrompt = this.buildSharedSystemPrompt(context);
       const messages = this.buildMessageHistory(conversationHistory, userMessage);
 
-      const requestBody = {
-        contents: [
-          {
-            parts: [{ text: systemPrompt }],
-            role: "user"
-          },
-          ...messages
-        ],
-        generationConfig: {
-          temperature: 0.8, // Slightly higher for more engaging shared conversations
-          topK: 40,
-          topP: 0.95,
-          maxOutputTokens: 1024,
-        },
-        safetySettings: [
-          {
-            category: "HARM_CATEGORY_HARASSMENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_HATE_SPEECH",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          },
-          {
-            category: "HARM_CATEGORY_DANGEROUS_CONTENT",
-            threshold: "BLOCK_MEDIUM_AND_ABOVE"
-          }
-        ]
-      };
+      // Slightly higher temperature for more engaging shared conversations
+      const requestBody = this.buildRequestBody(systemPrompt, messages, 0.8);
 
       const response = await fetch(`${this.baseUrl}?key=${this.apiKey}`, {
         method: 'POST',
@@ -184,6 +135,105 @@ export class GeminiService {
     }
   }
 
+  /**
+   * Stream a response from Gemini, yielding chunks of text as they are generated
+   */
+  async *streamResponse(
+    userMessage: string,
+    conversationHistory: ConversationHistory = [],
+    context: string = ""
+  ): AsyncGenerator<string> {
+    const systemPrompt = this.buildSystemPrompt(context);
+    const messages = this.buildMessageHistory(conversationHistory, userMessage);
+    yield* this.stream(this.buildRequestBody(systemPrompt, messages, 0.7));
+  }
+
+  /**
+   * Stream a response for shared group conversations, yielding chunks of text as they are generated
+   */
+  async *streamSharedResponse(
+    userMessage: string,
+    conversationHistory: ConversationHistory = [],
+    context: string = ""
+  ): AsyncGenerator<string> {
+    const systemPrompt = this.buildSharedSystemPrompt(context);
+    const messages = this.buildMessageHistory(conversationHistory, userMessage);
+    yield* this.stream(this.buildRequestBody(systemPrompt, messages, 0.8));
+  }
+
+  /**
+   * Calls the streaming API, which sends each chunk of the response as a server-sent event
+   */
+  private async *stream(requestBody: unknown): AsyncGenerator<string> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.streamUrl}?alt=sse&key=${this.apiKey}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      });
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        throw new Error(`Gemini API error: ${response.status} - ${errorText}`);
+      }
+    } catch (error) {
+      console.error("Error calling Gemini streaming API:", error);
+      throw new Error(`Failed to generate AI response: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    let buffer = "";
+    for await (const text of response.body.pipeThrough(new TextDecoderStream())) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      // Keep the last line, which may be incomplete, for the next read
+      buffer = lines.pop() ?? "";
+      for (const line of lines) {
+        if (!line.startsWith("data:")) continue;
+        const data: GeminiResponse = JSON.parse(line.slice("data:".length));
+        const chunk = data.candidates?.[0]?.content?.parts?.map((part) => part.text).join("");
+        if (chunk) yield chunk;
+      }
+    }
+  }
+
+  private buildRequestBody(systemPrompt: string, messages: GeminiMessage[], temperature: number) {
+    return {
+      contents: [
+        {
+          parts: [{ text: systemPrompt }],
+          role: "user"
+        },
+        ...messages
+      ],
+      generationConfig: {
+        temperature,
+        topK: 40,
+        topP: 0.95,
+        maxOutputTokens: 1024,
+      },
+      safetySettings: [
+        {
+          category: "HARM_CATEGORY_HARASSMENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_HATE_SPEECH",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_SEXUALLY_EXPLICIT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        },
+        {
+          category: "HARM_CATEGORY_DANGEROUS_CONTENT",
+          threshold: "BLOCK_MEDIUM_AND_ABOVE"
+        }
+      ]
+    };
+  }
+
   private buildSystemPrompt(context: string): string {
     const basePrompt = `You are Amimi, a warm friend who deeply understands love and relationships. You're here to listen, understand, and gently help people explore their feelings.
 
@@ -272,5 +322,39 @@ You're here to bring warmth, ideas, and help them feel closer - like a caring fr
   }
 }
 
+/**
+ * Stands in for Gemini when GEMINI_FAKE is "true", for local development without an API key:
+ * replies with a canned message, streamed word by word.
+ */
+export class FakeGeminiService implements AgentModel {
+  constructor(private readonly delay = 50) {}
+
+  private reply(userMessage: string) {
+    return `I hear you saying "${userMessage}". How are you feeling about it right now?`;
+  }
+
+  generateResponse(userMessage: string): Promise<string> {
+    return Promise.resolve(this.reply(userMessage));
+  }
+
+  generateSharedResponse(userMessage: string): Promise<string> {
+    return Promise.resolve(this.reply(userMessage));
+  }
+
+  async *streamResponse(userMessage: string): AsyncGenerator<string> {
+    const words = this.reply(userMessage).split(" ");
+    for (const [i, word] of words.entries()) {
+      await new Promise((resolve) => setTimeout(resolve, this.delay));
+      yield i === 0 ? word : ` ${word}`;
+    }
+  }
+
+  streamSharedResponse(userMessage: string): AsyncGenerator<string> {
+    return this.streamResponse(userMessage);
+  }
+}
+
 // Export a singleton instance
-export const geminiService = new GeminiService();
+export const geminiService: AgentModel = Deno.env.get("GEMINI_FAKE") === "true"
+  ? new FakeGeminiService()
+  : new GeminiService();
@@ -9,7 +9,11 @@
  * `import { User, Post } from "@concepts";`
  * `import { User, Post } from "@test-concepts";`
  *
- * Run this script using `deno task import`.
+ * It also generates `test_import_map.json`, with which `deno task test:syncs`
+ * runs the syncs against the test concepts.
+ *
+ * Run this script using `deno task import`, or `deno task dev`, which
+ * regenerates the files whenever syncs change.
  */
 import * as path from "jsr:@std/path";
 import { walk } from "jsr:@std/fs";
@@ -17,6 +21,7 @@ import { walk } from "jsr:@std/fs";
 // 1. Configuration
 const CONCEPTS_DIR = Deno.env.get("CONCEPTS_DIR") ?? "src/concepts";
 const SYNCS_DIR = Deno.env.get("SYNCS_DIR") ?? "src/syncs";
+const TEST_IMPORT_MAP = "test_import_map.json";
 
 interface ConceptInfo {
   name: string; // PascalCase name, e.g., "User"
@@ -79,7 +84,7 @@ function generateBarrelFileContent(
     `// This file is auto-generated by the \`generate_imports.ts\` script.
 // Do not edit it manually, unless you know your concept requires a custom instantiation procedure.
 
-import { SyncConcept } from "@engine";
+import { SyncConcept, transactional } from "@engine";
 
 export const Engine = new SyncConcept();\n`;
 
@@ -100,11 +105,14 @@ export const Engine = new SyncConcept();\n`;
   const dbInitialization = `
 // Initialize the database connection
 export const [db, client] = await ${dbImportFunc}();
+
+// Concepts join the transaction of each flow only when flows run in them
+const conceptDb = Deno.env.get("TRANSACTIONAL_FLOWS") === "true" ? transactional(db) : db;
 `;
 
   const instantiations = concepts
     .map((c) =>
-      `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(db));`
+      `export const ${c.name} = Engine.instrumentConcept(new ${c.name}Concept(conceptDb));`
     )
     .join("\n");
 
@@ -120,7 +128,7 @@ export const [db, client] = await ${dbImportFunc}();
   ].join("\n");
 }
 
-interface SyncInfo {
+export interface SyncInfo {
   prefix: string; // Fully-qualified prefix, e.g., "user.login"
   importAlias: string; // Sanitized alias for import, e.g., "sync_user_login"
   importPath: string; // Relative path for import, e.g., "./user/login.sync.ts"
@@ -130,7 +138,7 @@ interface SyncInfo {
  * Scans the base directory recursively to find all sync implementation files.
  * A valid sync file is any file ending with `.sync.ts`.
  */
-async function discoverSyncs(baseDir: string): Promise<SyncInfo[]> {
+export async function discoverSyncs(baseDir: string): Promise<SyncInfo[]> {
   const syncs: SyncInfo[] = [];
   const absoluteBaseDir = path.resolve(baseDir);
 
@@ -206,9 +214,40 @@ for (const [name, func] of Object.entries(${s.importAlias})) {
 }
 
 /**
- * Main execution function.
+ * Generates the import map of deno.json, with "@concepts" resolving to the
+ * test barrel file, so that syncs tested with it use the test database.
+ */
+async function generateTestImportMapContent(): Promise<string> {
+  const config = JSON.parse(await Deno.readTextFile("deno.json"));
+  const imports = {
+    ...config.imports,
+    "@concepts": config.imports["@test-concepts"],
+  };
+  return JSON.stringify({ imports }, null, 2) + "\n";
+}
+
+/**
+ * Writes a generated file, leaving it untouched if its content is the same,
+ * so that watchers of the file are not triggered needlessly.
  */
-async function main() {
+async function writeIfChanged(filePath: string, content: string) {
+  try {
+    if (await Deno.readTextFile(filePath) === content) {
+      return false;
+    }
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) {
+      throw error;
+    }
+  }
+  await Deno.writeTextFile(filePath, content);
+  return true;
+}
+
+/**
+ * Generates the concept and sync barrel files.
+ */
+export async function generateImports() {
   console.log(`Scanning for concepts in '${CONCEPTS_DIR}'...`);
   const concepts = await discoverConcepts(CONCEPTS_DIR);
 
@@ -219,14 +258,16 @@ async function main() {
   // Generate production barrel file
   const prodContent = generateBarrelFileContent(concepts, false);
   const prodFilePath = path.join(CONCEPTS_DIR, "concepts.ts");
-  await Deno.writeTextFile(prodFilePath, prodContent);
-  console.log(`✅ Generated production barrel file: ${prodFilePath}`);
+  if (await writeIfChanged(prodFilePath, prodContent)) {
+    console.log(`✅ Generated production barrel file: ${prodFilePath}`);
+  }
 
   // Generate test barrel file
   const testContent = generateBarrelFileContent(concepts, true);
   const testFilePath = path.join(CONCEPTS_DIR, "test_concepts.ts");
-  await Deno.writeTextFile(testFilePath, testContent);
-  console.log(`✅ Generated test barrel file: ${testFilePath}`);
+  if (await writeIfChanged(testFilePath, testContent)) {
+    console.log(`✅ Generated test barrel file: ${testFilePath}`);
+  }
 
   // 2. Generate Syncs File
   console.log(`\nScanning for syncs in '${SYNCS_DIR}'...`);
@@ -240,13 +281,21 @@ async function main() {
 
   const syncsContent = generateSyncsBarrelFileContent(syncs);
   const syncsFilePath = path.join(SYNCS_DIR, "syncs.ts");
-  await Deno.writeTextFile(syncsFilePath, syncsContent);
-  console.log(`✅ Generated syncs barrel file: ${syncsFilePath}`);
+  if (await writeIfChanged(syncsFilePath, syncsContent)) {
+    console.log(`✅ Generated syncs barrel file: ${syncsFilePath}`);
+  }
+
+  // 3. Generate the import map for sync tests
+  const importMapContent = await generateTestImportMapContent();
+  if (await writeIfChanged(TEST_IMPORT_MAP, importMapContent)) {
+    console.log(`✅ Generated test import map: ${TEST_IMPORT_MAP}`);
+  }
+  return syncs;
 }
 
-// Run the main function if this script is executed directly.
+// Generate the files if this script is executed directly.
 if (import.meta.main) {
-  main().catch((err) => {
+  generateImports().catch((err) => {
     console.error("Error generating import files:", err);
     Deno.exit(1);
   });
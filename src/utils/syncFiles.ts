@@ -0,0 +1,62 @@
+import { parse } from "jsr:@std/yaml";
+import { extname, join } from "jsr:@std/path";
+import {
+  DefinitionOptions,
+  SyncDefinitions,
+  syncsFromDefinitions,
+} from "@engine";
+
+const EXTENSIONS = [".json", ".yaml", ".yml"];
+
+/**
+ * Loads the declarative syncs defined by every JSON or YAML file in `dir`,
+ * looking up the actions and queries they name in `concepts`. Throws if a
+ * file cannot be parsed, if two files define the same sync or endpoint,
+ * or if a definition is invalid.
+ */
+export async function loadSyncFiles(
+  dir: string,
+  concepts: Record<string, unknown>,
+  options: DefinitionOptions = {},
+) {
+  const files: string[] = [];
+  try {
+    for await (const entry of Deno.readDir(dir)) {
+      if (entry.isFile && EXTENSIONS.includes(extname(entry.name))) {
+        files.push(entry.name);
+      }
+    }
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return {};
+    throw e;
+  }
+
+  const definitions: Required<SyncDefinitions> = { syncs: {}, endpoints: [] };
+  const sources = new Map<string, string>();
+  const claim = (name: string, file: string) => {
+    const previous = sources.get(name);
+    if (previous !== undefined) {
+      throw new Error(`${name} is defined in both ${previous} and ${file}.`);
+    }
+    sources.set(name, file);
+  };
+  for (const file of files.sort()) {
+    const text = await Deno.readTextFile(join(dir, file));
+    let parsed: SyncDefinitions;
+    try {
+      parsed = (extname(file) === ".json" ? JSON.parse(text) : parse(text)) ??
+        {};
+    } catch (e) {
+      throw new Error(`Could not parse ${file}: ${(e as Error).message}`);
+    }
+    for (const [name, sync] of Object.entries(parsed.syncs ?? {})) {
+      claim(name, file);
+      definitions.syncs[name] = sync;
+    }
+    for (const endpoint of parsed.endpoints ?? []) {
+      claim(endpoint.path, file);
+      definitions.endpoints.push(endpoint);
+    }
+  }
+  return syncsFromDefinitions(definitions, concepts, options);
+}